@@ -3,33 +3,72 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { createBrowserRouter, createRoutesFromElements, RouterProvider, Route, Navigate, Outlet } from "react-router-dom";
+import { ActivityProvider } from "./contexts/ActivityContext";
 import { AuthProvider } from "./contexts/AuthContext";
+import { TrashProvider } from "./contexts/TrashContext";
+import { UnsavedChangesProvider } from "./contexts/UnsavedChangesContext";
+import { ApiError, ApiSchemaError } from "./lib/api";
 import ProtectedRoute from "./components/ProtectedRoute";
 import LoginPage from "./pages/LoginPage";
+import RegisterPage from "./pages/RegisterPage";
 import UsersPage from "./pages/UsersPage";
+import UserDetailPage from "./pages/UserDetailPage";
+import TrashPage from "./pages/TrashPage";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: true,
+      // Client errors (404, 401, ...) and malformed responses won't succeed on retry
+      retry: (failureCount, error) =>
+        !(error instanceof ApiSchemaError) &&
+        !(error instanceof ApiError && error.status >= 400 && error.status < 500) &&
+        failureCount < 3,
+    },
+  },
+});
+
+const RootLayout = () => (
+  <UnsavedChangesProvider>
+    <AuthProvider>
+      <TrashProvider>
+        <ActivityProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <Outlet />
+          </TooltipProvider>
+        </ActivityProvider>
+      </TrashProvider>
+    </AuthProvider>
+  </UnsavedChangesProvider>
+);
+
+// A data router, which lets forms with unsaved changes block navigation
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<RootLayout />}>
+      <Route path="/" element={<Navigate to="/login" replace />} />
+      <Route path="/login" element={<LoginPage />} />
+      <Route path="/register" element={<RegisterPage />} />
+      <Route element={<ProtectedRoute />}>
+        <Route path="/users" element={<UsersPage />} />
+        <Route element={<ProtectedRoute permissions={['users:delete']} />}>
+          <Route path="/users/trash" element={<TrashPage />} />
+        </Route>
+        <Route path="/users/:id" element={<UserDetailPage />} />
+      </Route>
+      <Route path="*" element={<NotFound />} />
+    </Route>
+  )
+);
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <BrowserRouter>
-      <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <Routes>
-            <Route path="/" element={<Navigate to="/login" replace />} />
-            <Route path="/login" element={<LoginPage />} />
-            <Route element={<ProtectedRoute />}>
-              <Route path="/users" element={<UsersPage />} />
-            </Route>
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </TooltipProvider>
-      </AuthProvider>
-    </BrowserRouter>
+    <RouterProvider router={router} />
   </QueryClientProvider>
 );
 
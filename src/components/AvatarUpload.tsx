@@ -0,0 +1,194 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  AVATAR_ACCEPTED_TYPES,
+  centeredCrop,
+  clampCrop,
+  drawCrop,
+  getCropRect,
+  loadImage,
+  SquareCrop,
+  toAvatarDataUrl,
+  validateImageFile,
+} from '@/lib/image';
+import { ImageUp, Undo2, ZoomIn } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AvatarUploadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onReset: () => void;
+  initials: string;
+  alt: string;
+}
+
+// Rendered size of the preview, in CSS pixels
+const PREVIEW_SIZE = 112;
+const MAX_ZOOM = 3;
+
+const AvatarUpload: React.FC<AvatarUploadProps> = ({ value, onChange, onReset, initials, alt }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dragStart = useRef<{ x: number; y: number; crop: SquareCrop } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<SquareCrop | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  useEffect(() => {
+    if (image && crop && canvasRef.current) {
+      drawCrop(canvasRef.current, image, crop);
+    }
+  }, [image, crop]);
+
+  // Hands the cropped square to the form; called once a drag or zoom ends
+  const commitCrop = (source: HTMLImageElement, nextCrop: SquareCrop) => {
+    const canvas = document.createElement('canvas');
+    drawCrop(canvas, source, nextCrop);
+    onChange(toAvatarDataUrl(canvas));
+  };
+
+  const handleFile = async (file: File) => {
+    const validationError = validateImageFile(file);
+    setError(validationError);
+    if (validationError) return;
+
+    try {
+      const loaded = await loadImage(file);
+      const initialCrop = centeredCrop(loaded);
+      setImage(loaded);
+      setCrop(initialCrop);
+      commitCrop(loaded, initialCrop);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'The image could not be read');
+    }
+  };
+
+  const handleUndo = () => {
+    setImage(null);
+    setCrop(null);
+    setError(null);
+    onReset();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStart.current;
+    if (!start || !image) return;
+    // One preview pixel covers this many image pixels
+    const scale = getCropRect(image, start.crop).side / PREVIEW_SIZE;
+    setCrop(clampCrop(image, {
+      ...start.crop,
+      centerX: start.crop.centerX - (e.clientX - start.x) * scale,
+      centerY: start.crop.centerY - (e.clientY - start.y) * scale,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart.current) return;
+    dragStart.current = null;
+    commitCrop(image, crop);
+  };
+
+  const handleZoom = ([zoom]: number[], commit = false) => {
+    const nextCrop = clampCrop(image, { ...crop, zoom });
+    setCrop(nextCrop);
+    if (commit) commitCrop(image, nextCrop);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const file = e.dataTransfer.files[0];
+        if (file) handleFile(file);
+      }}
+      className={cn(
+        'flex items-center gap-5 p-3 border-2 border-dashed border-border rounded-lg transition-colors',
+        isDragOver && 'border-primary/50 bg-primary/5'
+      )}
+    >
+      {image ? (
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          className="shrink-0 rounded-full ring-4 ring-primary/10 cursor-move touch-none"
+          aria-label="Drag to reposition the avatar"
+        />
+      ) : (
+        <Avatar style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }} className="ring-4 ring-primary/10">
+          <AvatarImage src={value} alt={alt} className="object-cover" />
+          <AvatarFallback className="text-3xl bg-primary/10 text-primary">{initials}</AvatarFallback>
+        </Avatar>
+      )}
+      <div className="flex flex-col gap-2 min-w-0 flex-1">
+        {image ? (
+          <>
+            <div className="flex items-center gap-2">
+              <ZoomIn className="h-4 w-4 text-muted-foreground shrink-0" />
+              <Slider
+                min={1}
+                max={MAX_ZOOM}
+                step={0.05}
+                value={[crop.zoom]}
+                onValueChange={(zoom) => handleZoom(zoom)}
+                onValueCommit={(zoom) => handleZoom(zoom, true)}
+                aria-label="Zoom"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">Drag the image to reposition it</p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Drop an image here, or</p>
+        )}
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} className="flex items-center gap-1">
+            <ImageUp className="h-4 w-4" />
+            {image ? 'Choose another' : 'Upload image'}
+          </Button>
+          {image && (
+            <Button type="button" variant="ghost" size="sm" onClick={handleUndo} className="flex items-center gap-1">
+              <Undo2 className="h-4 w-4" />
+              Undo
+            </Button>
+          )}
+        </div>
+        {error ? (
+          <p className="text-sm font-medium text-destructive">{error}</p>
+        ) : (
+          !image && <p className="text-xs text-muted-foreground">JPEG, PNG, WebP or GIF, up to 5 MB</p>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={AVATAR_ACCEPTED_TYPES.join(',')}
+          className="sr-only"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            // Allow picking the same file again after an undo
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AvatarUpload;
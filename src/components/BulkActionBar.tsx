@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CheckSquare, Download, PenLine, Trash2, X } from 'lucide-react';
+
+export interface BulkProgress {
+  label: string;
+  completed: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  progress: BulkProgress | null;
+  isSelectingAll: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  // Actions the current user isn't permitted to take are left out
+  onDelete?: () => void;
+  onExport?: () => void;
+  onUpdate?: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  progress,
+  isSelectingAll,
+  onSelectAllMatching,
+  onClear,
+  onDelete,
+  onExport,
+  onUpdate,
+}) => {
+  if (selectedCount === 0 && !progress) return null;
+
+  return (
+    <div className="sticky top-24 z-10 bg-card/90 backdrop-blur-lg border border-border/40 rounded-lg p-3 mb-6 shadow-lg animate-scale-in">
+      {progress ? (
+        <div className="flex items-center gap-4">
+          <span className="text-sm font-medium whitespace-nowrap">
+            {progress.label} {progress.completed} of {progress.total}...
+          </span>
+          <Progress value={(progress.completed / progress.total) * 100} className="h-2" />
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium">{selectedCount} selected</span>
+            <Button
+              variant="link"
+              size="sm"
+              onClick={onSelectAllMatching}
+              disabled={isSelectingAll}
+              className="flex items-center gap-1 h-auto p-0"
+            >
+              <CheckSquare className="h-4 w-4" />
+              {isSelectingAll ? 'Selecting...' : 'Select all matching'}
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            {onUpdate && (
+              <Button variant="outline" size="sm" onClick={onUpdate} className="flex items-center gap-1">
+                <PenLine className="h-4 w-4" />
+                Update
+              </Button>
+            )}
+            {onExport && (
+              <Button variant="outline" size="sm" onClick={onExport} className="flex items-center gap-1">
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            )}
+            {onDelete && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onDelete}
+                className="flex items-center gap-1 text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={onClear} className="h-8 w-8" aria-label="Clear selection">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
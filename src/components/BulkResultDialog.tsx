@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { BatchResult } from '@/lib/batch';
+import { User } from '@/types';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+export interface BulkSummary {
+  action: string;
+  results: BatchResult<User>[];
+}
+
+interface BulkResultDialogProps {
+  summary: BulkSummary | null;
+  onClose: () => void;
+}
+
+const BulkResultDialog: React.FC<BulkResultDialogProps> = ({ summary, onClose }) => {
+  const succeeded = summary?.results.filter((result) => result.ok).length ?? 0;
+  const failed = (summary?.results.length ?? 0) - succeeded;
+
+  return (
+    <Dialog open={!!summary} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-card/95 backdrop-blur-lg border border-border/40">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">{summary?.action} finished</DialogTitle>
+          <DialogDescription>
+            {succeeded} succeeded, {failed} failed.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-72 pr-3">
+          <ul className="space-y-2 py-2">
+            {summary?.results.map(({ item, ok, error }) => (
+              <li key={item.id} className="flex items-start gap-2 text-sm">
+                {ok ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                )}
+                <div>
+                  <span className="font-medium">{`${item.first_name} ${item.last_name}`}</span>
+                  {error && <p className="text-muted-foreground">{error}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <DialogFooter>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkResultDialog;
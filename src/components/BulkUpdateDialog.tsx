@@ -0,0 +1,94 @@
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UpdateUserData } from '@/types';
+import { PenLine } from 'lucide-react';
+
+// Fields that make sense to set to the same value for many users
+const BULK_UPDATE_FIELDS: { key: keyof UpdateUserData; label: string }[] = [
+  { key: 'job', label: 'Job title' },
+  { key: 'department', label: 'Department' },
+  { key: 'location', label: 'Location' },
+];
+
+interface BulkUpdateDialogProps {
+  isOpen: boolean;
+  selectedCount: number;
+  onClose: () => void;
+  onConfirm: (userData: UpdateUserData) => void;
+}
+
+const BulkUpdateDialog: React.FC<BulkUpdateDialogProps> = ({ isOpen, selectedCount, onClose, onConfirm }) => {
+  const [field, setField] = useState<keyof UpdateUserData>(BULK_UPDATE_FIELDS[0].key);
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setField(BULK_UPDATE_FIELDS[0].key);
+      setValue('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({ [field]: value.trim() });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px] bg-card/95 backdrop-blur-lg border border-border/40">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <PenLine className="h-5 w-5 text-primary" />
+            Update {selectedCount} users
+          </DialogTitle>
+          <DialogDescription>
+            Set a field to the same value for every selected user.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="animate-fade-in">
+          <div className="grid gap-5 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-field" className="text-sm font-medium">Field</Label>
+              <Select value={field} onValueChange={(v) => setField(v as keyof UpdateUserData)}>
+                <SelectTrigger id="bulk-field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_UPDATE_FIELDS.map((option) => (
+                    <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-value" className="text-sm font-medium">New value</Label>
+              <Input
+                id="bulk-value"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="focus:ring-primary"
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" className="btn-glow">
+              Apply to {selectedCount} users
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkUpdateDialog;
@@ -0,0 +1,30 @@
+
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  highlight?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps case-insensitive occurrences of `highlight` in a <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlight }) => {
+  const query = highlight?.trim();
+  if (!query) return <>{text}</>;
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.toLowerCase() === query.toLowerCase() ? (
+          <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,67 @@
+
+import React, { useState, useEffect } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock } from 'lucide-react';
+
+interface IdleWarningDialogProps {
+  // Time the session ends unless the user stays, in ms since epoch
+  deadline: number | null;
+  onStaySignedIn: () => void;
+  // The user chose to sign out now
+  onSignOut: () => void;
+  // The countdown ran out
+  onTimeout: () => void;
+}
+
+const secondsUntil = (deadline: number) => Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+
+const IdleWarningDialog: React.FC<IdleWarningDialogProps> = ({ deadline, onStaySignedIn, onSignOut, onTimeout }) => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Counts down from the deadline rather than ticks, so a throttled
+  // background tab still signs out on time
+  useEffect(() => {
+    if (!deadline) return;
+    setSecondsLeft(secondsUntil(deadline));
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(deadline);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        onTimeout();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [deadline, onTimeout]);
+
+  return (
+    <AlertDialog open={deadline !== null}>
+      <AlertDialogContent className="bg-card/95 backdrop-blur-lg border border-border/40">
+        <AlertDialogHeader className="space-y-3">
+          <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Clock className="h-6 w-6 text-primary" />
+          </div>
+          <AlertDialogTitle className="text-xl text-center">Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription className="text-center" aria-live="polite">
+            You will be logged out in <span className="font-medium text-foreground">{secondsLeft}s</span> due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="flex sm:justify-center gap-2">
+          <AlertDialogCancel onClick={onSignOut} className="sm:w-36">Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={onStaySignedIn} className="sm:w-36">Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default IdleWarningDialog;
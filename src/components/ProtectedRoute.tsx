@@ -1,19 +1,44 @@
-
-import { useEffect } from 'react';
-import { useNavigate, Outlet, Navigate } from 'react-router-dom';
+import { Outlet, Navigate, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { getLoginPath } from '@/lib/return-to';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Permission } from '@/types';
+import { ShieldX } from 'lucide-react';
+
+interface ProtectedRouteProps {
+  // Every permission the signed-in user needs to see the nested routes
+  permissions?: Permission[];
+}
+
+const ProtectedRoute = ({ permissions = [] }: ProtectedRouteProps) => {
+  const { isAuthenticated, hasPermission } = useAuth();
+  const location = useLocation();
 
-const ProtectedRoute = () => {
-  const { isAuthenticated } = useAuth();
-  const navigate = useNavigate();
+  // Remember where the user was headed so login can send them back
+  if (!isAuthenticated) {
+    return <Navigate to={getLoginPath(location)} replace />;
+  }
 
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/login');
-    }
-  }, [isAuthenticated, navigate]);
+  if (!hasPermission(...permissions)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="page-container pt-8">
+          <div className="text-center py-16 bg-card/30 backdrop-blur-sm rounded-lg border border-border/40 animate-fade-in">
+            <ShieldX className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-lg font-medium mb-1">Access denied</p>
+            <p className="text-muted-foreground mb-4">Your role does not have permission to view this page</p>
+            <Button asChild variant="outline">
+              <Link to="/users">Back to users</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
-  return isAuthenticated ? <Outlet /> : <Navigate to="/login" />;
+  return <Outlet />;
 };
 
 export default ProtectedRoute;
@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ApiSchemaError } from '@/lib/api';
+import { FileWarning } from 'lucide-react';
+
+interface SchemaErrorStateProps {
+  error: ApiSchemaError;
+  onRetry?: () => void;
+}
+
+// Shown instead of the data when the API answered with an unexpected shape
+const SchemaErrorState: React.FC<SchemaErrorStateProps> = ({ error, onRetry }) => {
+  return (
+    <div className="text-center py-16 bg-card/30 backdrop-blur-sm rounded-lg border border-destructive/40 animate-fade-in">
+      <FileWarning className="h-12 w-12 mx-auto text-destructive mb-4" />
+      <p className="text-lg font-medium mb-1">Unexpected response from the server</p>
+      <p className="text-muted-foreground mb-4">The data could not be displayed because it is not in the expected format</p>
+      <details className="max-w-lg mx-auto mb-4 text-left text-xs text-muted-foreground">
+        <summary className="cursor-pointer text-center">Technical details</summary>
+        <ul className="mt-2 font-mono bg-muted p-3 rounded space-y-1">
+          {error.issues.map((issue, i) => (
+            <li key={i}>
+              {issue.path.join('.') || '(root)'}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      </details>
+      {onRetry && (
+        <Button onClick={onRetry} variant="outline">Try again</Button>
+      )}
+    </div>
+  );
+};
+
+export default SchemaErrorState;
@@ -0,0 +1,48 @@
+
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle } from 'lucide-react';
+
+interface UnsavedChangesDialogProps {
+  isOpen: boolean;
+  onKeepEditing: () => void;
+  onDiscard: () => void;
+}
+
+const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({ isOpen, onKeepEditing, onDiscard }) => {
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onKeepEditing()}>
+      <AlertDialogContent className="bg-card/95 backdrop-blur-lg border border-border/40">
+        <AlertDialogHeader className="space-y-3">
+          <div className="mx-auto w-12 h-12 rounded-full bg-amber-500/10 flex items-center justify-center">
+            <AlertTriangle className="h-6 w-6 text-amber-500" />
+          </div>
+          <AlertDialogTitle className="text-xl text-center">Discard unsaved changes?</AlertDialogTitle>
+          <AlertDialogDescription className="text-center">
+            You have edits that haven't been saved. If you leave now they will be lost.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="flex sm:justify-center gap-2">
+          <AlertDialogCancel className="sm:w-32">Keep editing</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onDiscard}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90 sm:w-32"
+          >
+            Discard
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default UnsavedChangesDialog;
@@ -1,35 +1,90 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { User } from '@/types';
-import { Edit, Trash2, Mail, User as UserIcon } from 'lucide-react';
+import { Edit, Trash2, Mail, User as UserIcon, Briefcase, MapPin, Phone, CalendarDays } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import HighlightedText from '@/components/HighlightedText';
+import { cn, formatDate } from '@/lib/utils';
 
 interface UserCardProps {
   user: User;
-  onEdit: (user: User) => void;
-  onDelete: (user: User) => void;
+  // Omitted when the current user may not edit or delete; the button is hidden
+  onEdit?: (user: User) => void;
+  onDelete?: (user: User) => void;
+  highlight?: string;
+  selected?: boolean;
+  onSelectedChange?: (user: User, selected: boolean) => void;
 }
 
-const UserCard: React.FC<UserCardProps> = ({ user, onEdit, onDelete }) => {
+const UserCard: React.FC<UserCardProps> = ({ user, onEdit, onDelete, highlight, selected = false, onSelectedChange }) => {
   return (
-    <Card className="overflow-hidden transition-all hover:shadow-lg hover:-translate-y-1 duration-300 border border-border/40 bg-card/80 backdrop-blur-sm">
-      <div className="aspect-square relative overflow-hidden bg-gradient-to-br from-primary/5 to-primary/10">
-        <img
-          src={user.avatar}
-          alt={`${user.first_name} ${user.last_name}`}
-          className="object-cover w-full h-full transition-transform duration-500 hover:scale-105"
+    <Card className={cn(
+      "relative overflow-hidden transition-all hover:shadow-lg hover:-translate-y-1 duration-300 border border-border/40 bg-card/80 backdrop-blur-sm",
+      selected && "ring-2 ring-primary"
+    )}>
+      {onSelectedChange && (
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelectedChange(user, checked === true)}
+          aria-label={`Select ${user.first_name} ${user.last_name}`}
+          className="absolute top-3 left-3 z-10 h-5 w-5 bg-background/90"
         />
+      )}
+      <Link to={`/users/${user.id}`} className="block aspect-square relative overflow-hidden bg-gradient-to-br from-primary/5 to-primary/10">
+        <Avatar className="h-full w-full rounded-none">
+          <AvatarImage
+            src={user.avatar}
+            alt={`${user.first_name} ${user.last_name}`}
+            className="object-cover transition-transform duration-500 hover:scale-105"
+          />
+          <AvatarFallback className="rounded-none bg-transparent text-5xl font-semibold text-primary">
+            {`${user.first_name.charAt(0)}${user.last_name.charAt(0)}`}
+          </AvatarFallback>
+        </Avatar>
         <div className="absolute bottom-0 left-0 right-0 h-1/3 bg-gradient-to-t from-black/50 to-transparent"></div>
-      </div>
+      </Link>
       <CardContent className="p-5">
         <div className="flex flex-col gap-2">
-          <h3 className="font-semibold text-lg truncate">{`${user.first_name} ${user.last_name}`}</h3>
+          <Link to={`/users/${user.id}`} className="hover:text-primary transition-colors">
+            <h3 className="font-semibold text-lg truncate">
+              <HighlightedText text={`${user.first_name} ${user.last_name}`} highlight={highlight} />
+            </h3>
+          </Link>
           <div className="flex items-center text-sm text-muted-foreground gap-1.5">
             <Mail className="h-3.5 w-3.5" />
-            <span className="truncate">{user.email}</span>
+            <span className="truncate">
+              <HighlightedText text={user.email} highlight={highlight} />
+            </span>
           </div>
+          {(user.job || user.department) && (
+            <div className="flex items-center text-sm text-muted-foreground gap-1.5">
+              <Briefcase className="h-3.5 w-3.5" />
+              <span className="truncate">{[user.job, user.department].filter(Boolean).join(' · ')}</span>
+            </div>
+          )}
+          {user.location && (
+            <div className="flex items-center text-sm text-muted-foreground gap-1.5">
+              <MapPin className="h-3.5 w-3.5" />
+              <span className="truncate">{user.location}</span>
+            </div>
+          )}
+          {user.phone && (
+            <div className="flex items-center text-sm text-muted-foreground gap-1.5">
+              <Phone className="h-3.5 w-3.5" />
+              <a href={`tel:${user.phone}`} className="truncate hover:text-primary">{user.phone}</a>
+            </div>
+          )}
+          {user.start_date && (
+            <div className="flex items-center text-sm text-muted-foreground gap-1.5">
+              <CalendarDays className="h-3.5 w-3.5" />
+              <span className="truncate">Started {formatDate(user.start_date)}</span>
+            </div>
+          )}
           <div className="flex items-center mt-1">
             <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20 text-xs">
               <UserIcon className="h-3 w-3 mr-1" />
@@ -38,26 +93,32 @@ const UserCard: React.FC<UserCardProps> = ({ user, onEdit, onDelete }) => {
           </div>
         </div>
       </CardContent>
-      <CardFooter className="flex justify-between p-5 pt-0 gap-2">
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={() => onEdit(user)}
-          className="flex items-center gap-1 flex-1 hover:bg-primary/10 hover:text-primary"
-        >
-          <Edit className="h-4 w-4" />
-          Edit
-        </Button>
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={() => onDelete(user)} 
-          className="flex items-center gap-1 flex-1 text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
-        >
-          <Trash2 className="h-4 w-4" />
-          Delete
-        </Button>
-      </CardFooter>
+      {(onEdit || onDelete) && (
+        <CardFooter className="flex justify-between p-5 pt-0 gap-2">
+          {onEdit && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => onEdit(user)}
+              className="flex items-center gap-1 flex-1 hover:bg-primary/10 hover:text-primary"
+            >
+              <Edit className="h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          {onDelete && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => onDelete(user)} 
+              className="flex items-center gap-1 flex-1 text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </CardFooter>
+      )}
     </Card>
   );
 };
@@ -0,0 +1,100 @@
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import UserFormFields from '@/components/UserFormFields';
+import { Form } from '@/components/ui/form';
+import { applyServerFieldErrors, toUserFormValues, userFormSchema, UserFormValues } from '@/lib/user-form';
+import { CreateUserResponse, UpdateUserData } from '@/types';
+import { toast } from 'sonner';
+import { UserPlus } from 'lucide-react';
+
+interface UserCreateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (userData: UpdateUserData) => Promise<CreateUserResponse>;
+}
+
+const UserCreateModal: React.FC<UserCreateModalProps> = ({ isOpen, onClose, onCreate }) => {
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: toUserFormValues(null),
+    mode: 'onChange',
+  });
+  const { isValid, isSubmitting } = form.formState;
+
+  // Start from a blank form every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(toUserFormValues(null));
+    }
+  }, [isOpen, form]);
+
+  // New users have no avatar to send; they get the placeholder until edited
+  const handleSubmit = async ({ avatar, ...values }: UserFormValues) => {
+    try {
+      const created = await onCreate({
+        ...values,
+        name: `${values.first_name} ${values.last_name}`,
+      });
+      onClose();
+      toast.success('User created successfully', {
+        description: `ID ${created.id} · Created ${new Date(created.createdAt).toLocaleString()}`,
+      });
+    } catch (error) {
+      if (applyServerFieldErrors(form, error)) return;
+
+      toast.error('Failed to create user', {
+        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto bg-card/95 backdrop-blur-lg border border-border/40">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-primary" />
+            Add User
+          </DialogTitle>
+          <DialogDescription>
+            Enter the new team member's details.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="animate-fade-in" noValidate>
+            <div className="grid gap-5 py-4">
+              <UserFormFields control={form.control} />
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isValid || isSubmitting} className="btn-glow">
+                {isSubmitting ? (
+                  <span className="flex items-center">
+                    <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Creating...
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1">
+                    <UserPlus className="h-4 w-4" />
+                    Create User
+                  </span>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserCreateModal;
@@ -47,7 +47,7 @@ const UserDeleteDialog: React.FC<UserDeleteDialogProps> = ({
           <AlertDialogTitle className="text-xl text-center">Delete Confirmation</AlertDialogTitle>
           <AlertDialogDescription className="text-center">
             Are you sure you want to delete <span className="font-medium text-foreground">{userName}</span>? 
-            <br />This action cannot be undone.
+            <br />Deleted users can be restored from the trash.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter className="flex sm:justify-center gap-2">
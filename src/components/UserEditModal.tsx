@@ -1,12 +1,17 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Label } from '@/components/ui/label';
-import { Input } from '@/components/ui/input';
+import AvatarUpload from '@/components/AvatarUpload';
+import UserFormFields from '@/components/UserFormFields';
+import { Form, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUnsavedChangesGuard } from '@/contexts/UnsavedChangesContext';
+import { applyServerFieldErrors, toUserFormValues, userFormSchema, UserFormValues } from '@/lib/user-form';
 import { User, UpdateUserData } from '@/types';
 import { toast } from 'sonner';
-import { Mail, User as UserIcon, Save } from 'lucide-react';
+import { User as UserIcon, Save } from 'lucide-react';
 
 interface UserEditModalProps {
   user: User | null;
@@ -16,52 +21,47 @@ interface UserEditModalProps {
 }
 
 const UserEditModal: React.FC<UserEditModalProps> = ({ user, isOpen, onClose, onSave }) => {
-  const [formData, setFormData] = useState<UpdateUserData>({
-    first_name: '',
-    last_name: '',
-    email: '',
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: toUserFormValues(user),
+    mode: 'onChange',
   });
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isDirty, isValid, isSubmitting } = form.formState;
+  const confirmDiscard = useUnsavedChangesGuard(isOpen && isDirty);
 
+  // Start from the user's current details every time the modal opens
   useEffect(() => {
-    if (user) {
-      setFormData({
-        first_name: user.first_name,
-        last_name: user.last_name,
-        email: user.email,
-      });
+    if (isOpen) {
+      form.reset(toUserFormValues(user));
     }
-  }, [user]);
+  }, [user, isOpen, form]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
+  // Cancel, Escape and overlay clicks all ask before throwing edits away
+  const requestClose = async () => {
+    if (await confirmDiscard()) onClose();
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (values: UserFormValues) => {
     if (!user) return;
-    
-    setIsSubmitting(true);
+
     try {
-      await onSave(user.id, formData);
+      await onSave(user.id, values);
       onClose();
       toast.success('User updated successfully');
     } catch (error) {
-      toast.error('Failed to update user', {
-        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      if (applyServerFieldErrors(form, error)) return;
+
+      toast.error('Changes reverted', {
+        description: `Could not save changes to ${user.first_name} ${user.last_name}: ${
+          error instanceof Error ? error.message : 'An unknown error occurred'
+        }`
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[425px] bg-card/95 backdrop-blur-lg border border-border/40">
+    <Dialog open={isOpen} onOpenChange={(open) => !open && requestClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto bg-card/95 backdrop-blur-lg border border-border/40">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold flex items-center gap-2">
             <UserIcon className="h-5 w-5 text-primary" />
@@ -71,70 +71,51 @@ const UserEditModal: React.FC<UserEditModalProps> = ({ user, isOpen, onClose, on
             Update user details and save when you're done.
           </DialogDescription>
         </DialogHeader>
-        <form onSubmit={handleSubmit} className="animate-fade-in">
-          <div className="grid gap-5 py-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="first_name" className="text-sm font-medium">First Name</Label>
-                <Input
-                  id="first_name"
-                  name="first_name"
-                  value={formData.first_name}
-                  onChange={handleChange}
-                  className="focus:ring-primary"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="last_name" className="text-sm font-medium">Last Name</Label>
-                <Input
-                  id="last_name"
-                  name="last_name"
-                  value={formData.last_name}
-                  onChange={handleChange}
-                  className="focus:ring-primary"
-                  required
-                />
-              </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-sm font-medium">Email</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="email"
-                  name="email"
-                  type="email"
-                  value={formData.email}
-                  onChange={handleChange}
-                  className="pl-10 focus:ring-primary"
-                  required
-                />
-              </div>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="animate-fade-in" noValidate>
+            <div className="grid gap-5 py-4">
+              <FormField
+                control={form.control}
+                name="avatar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Avatar</FormLabel>
+                    <AvatarUpload
+                      value={field.value}
+                      onChange={field.onChange}
+                      onReset={() => form.resetField('avatar')}
+                      initials={`${user?.first_name.charAt(0) ?? ''}${user?.last_name.charAt(0) ?? ''}`}
+                      alt={user ? `${user.first_name} ${user.last_name}` : 'Avatar'}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <UserFormFields control={form.control} />
             </div>
-          </div>
-          <DialogFooter className="gap-2">
-            <Button type="button" variant="outline" onClick={onClose}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isSubmitting} className="btn-glow">
-              {isSubmitting ? (
-                <span className="flex items-center">
-                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Saving...
-                </span>
-              ) : (
-                <span className="flex items-center gap-1">
-                  <Save className="h-4 w-4" />
-                  Save Changes
-                </span>
-              )}
-            </Button>
-          </DialogFooter>
-        </form>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={requestClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isDirty || !isValid || isSubmitting} className="btn-glow">
+                {isSubmitting ? (
+                  <span className="flex items-center">
+                    <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Saving...
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1">
+                    <Save className="h-4 w-4" />
+                    Save Changes
+                  </span>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,146 @@
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { exportUsers, ExportFormat, USER_EXPORT_COLUMNS } from '@/lib/export';
+import { User } from '@/types';
+import { toast } from 'sonner';
+import { Download } from 'lucide-react';
+
+export type ExportScope = 'page' | 'search' | 'selection' | 'all';
+
+interface UserExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialScope?: ExportScope;
+  searchQuery: string;
+  selectedCount: number;
+  getUsers: (scope: ExportScope) => Promise<User[]>;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+const UserExportDialog: React.FC<UserExportDialogProps> = ({
+  isOpen,
+  onClose,
+  initialScope = 'page',
+  searchQuery,
+  selectedCount,
+  getUsers,
+}) => {
+  const [scope, setScope] = useState<ExportScope>(initialScope);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columnKeys, setColumnKeys] = useState<string[]>(USER_EXPORT_COLUMNS.map((column) => column.key));
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setScope(initialScope);
+    }
+  }, [isOpen, initialScope]);
+
+  const scopes: { value: ExportScope; label: string; disabled?: boolean }[] = [
+    { value: 'page', label: 'Current page' },
+    { value: 'search', label: searchQuery ? `Search results for "${searchQuery}"` : 'Search results', disabled: !searchQuery },
+    { value: 'selection', label: `Selected users (${selectedCount})`, disabled: selectedCount === 0 },
+    { value: 'all', label: 'All users' },
+  ];
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumnKeys((prev) => (checked ? [...prev, key] : prev.filter((columnKey) => columnKey !== key)));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const users = await getUsers(scope);
+      await exportUsers(users, {
+        format,
+        columns: USER_EXPORT_COLUMNS.filter((column) => columnKeys.includes(column.key)),
+        filename: `users-${scope}-${new Date().toISOString().slice(0, 10)}`,
+      });
+      toast.success(`Exported ${users.length} users`);
+      onClose();
+    } catch (error) {
+      console.error('Error exporting users:', error);
+      toast.error('Failed to export users', {
+        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-card/95 backdrop-blur-lg border border-border/40">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <Download className="h-5 w-5 text-primary" />
+            Export users
+          </DialogTitle>
+          <DialogDescription>
+            Choose what to export and in which format.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-4 animate-fade-in">
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Users</Label>
+            <RadioGroup value={scope} onValueChange={(v) => setScope(v as ExportScope)}>
+              {scopes.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.value} id={`scope-${option.value}`} disabled={option.disabled} />
+                  <Label htmlFor={`scope-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {USER_EXPORT_COLUMNS.map((column) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`column-${column.key}`}
+                    checked={columnKeys.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`column-${column.key}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Format</Label>
+            <RadioGroup value={format} onValueChange={(v) => setFormat(v as ExportFormat)} className="flex gap-4">
+              {FORMATS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.value} id={`format-${option.value}`} />
+                  <Label htmlFor={`format-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || columnKeys.length === 0} className="btn-glow flex items-center gap-1">
+            <Download className="h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserExportDialog;
@@ -0,0 +1,97 @@
+
+import React from 'react';
+import { Control } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { UserFormValues } from '@/lib/user-form';
+import { Mail } from 'lucide-react';
+
+const PROFILE_FIELDS: { name: keyof UserFormValues; label: string; type?: string; placeholder?: string }[] = [
+  { name: 'job', label: 'Job Title', placeholder: 'e.g. Product Designer' },
+  { name: 'department', label: 'Department', placeholder: 'e.g. Design' },
+  { name: 'phone', label: 'Phone', type: 'tel', placeholder: '+1 555 123 4567' },
+  { name: 'location', label: 'Location', placeholder: 'e.g. Berlin' },
+  { name: 'start_date', label: 'Start Date', type: 'date' },
+];
+
+interface UserFormFieldsProps {
+  control: Control<UserFormValues>;
+}
+
+// Name, email and profile fields of the create and edit user forms. The
+// avatar is left to the caller, since only existing users have one to edit.
+const UserFormFields: React.FC<UserFormFieldsProps> = ({ control }) => {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="first_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>First Name</FormLabel>
+              <FormControl>
+                <Input {...field} className="focus:ring-primary" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="last_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Last Name</FormLabel>
+              <FormControl>
+                <Input {...field} className="focus:ring-primary" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={control}
+        name="email"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Email</FormLabel>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <FormControl>
+                <Input {...field} type="email" className="pl-10 focus:ring-primary" />
+              </FormControl>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        {PROFILE_FIELDS.map((option) => (
+          <FormField
+            key={option.name}
+            control={control}
+            name={option.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{option.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type={option.type}
+                    placeholder={option.placeholder}
+                    className="focus:ring-primary"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default UserFormFields;
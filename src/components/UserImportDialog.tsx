@@ -0,0 +1,315 @@
+
+import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchAllMatchingUsers, useBulkUserActions } from '@/hooks/use-users';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/export';
+import { ColumnMapping, guessColumnMapping, IMPORT_FIELDS, ImportField, ImportRow, validateImportRows } from '@/lib/import-users';
+import { BatchResult } from '@/lib/batch';
+import { toast } from 'sonner';
+import { AlertCircle, CheckCircle2, Download, FileUp, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Step = 'upload' | 'map' | 'review' | 'importing' | 'done';
+
+interface UserImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const UNMAPPED = 'none';
+
+const UserImportDialog: React.FC<UserImportDialogProps> = ({ isOpen, onClose }) => {
+  const queryClient = useQueryClient();
+  const { createUsers } = useBulkUserActions();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [results, setResults] = useState<BatchResult<ImportRow>[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setFileName('');
+      setHeaders([]);
+      setCsvRows([]);
+      setMapping(null);
+      setRows([]);
+      setResults([]);
+    }
+  }, [isOpen]);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const failedResults = results.filter((result) => !result.ok);
+
+  const handleFile = async (file: File) => {
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error('Nothing to import', { description: 'The file needs a header row and at least one user' });
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setCsvRows(dataRows);
+    setMapping(guessColumnMapping(headerRow));
+    setStep('map');
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }));
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter((field) => field.required && mapping?.[field.key] === null);
+
+  // Validation checks duplicates against every existing user, not just the loaded page
+  const handleValidate = async () => {
+    setIsValidating(true);
+    try {
+      const existing = await fetchAllMatchingUsers(queryClient);
+      const existingEmails = new Set(existing.map((user) => user.email.toLowerCase()));
+      setRows(validateImportRows(csvRows, mapping, existingEmails));
+      setStep('review');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast.error('Failed to validate import', {
+        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress({ completed: 0, total: validRows.length });
+    const batchResults = await createUsers(validRows, (completed, total) => setProgress({ completed, total }));
+    setResults(batchResults);
+    setStep('done');
+  };
+
+  // Rows skipped by validation and rows the API rejected
+  const downloadFailureReport = () => {
+    const failures = [
+      ...invalidRows.map((row) => ({ row: row.rowNumber, ...row.data, error: row.errors.join('; ') })),
+      ...failedResults.map(({ item, error }) => ({ row: item.rowNumber, ...item.data, error })),
+    ].sort((a, b) => a.row - b.row);
+    const columns = [
+      { key: 'row', label: 'Row' },
+      ...IMPORT_FIELDS.map((field) => ({ key: field.key, label: field.label })),
+      { key: 'error', label: 'Error' },
+    ];
+    downloadFile(toCsv(failures, columns), `import-failures-${fileName || 'users.csv'}`, 'text/csv;charset=utf-8');
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 'upload':
+        return (
+          <label
+            htmlFor="import-file"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const file = e.dataTransfer.files[0];
+              if (file) handleFile(file);
+            }}
+            className="flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed border-border rounded-lg cursor-pointer hover:border-primary/50 hover:bg-primary/5 transition-colors"
+          >
+            <FileUp className="h-10 w-10 text-muted-foreground" />
+            <span className="font-medium">Drop a CSV file here or click to browse</span>
+            <span className="text-sm text-muted-foreground">The first row must contain column headers</span>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </label>
+        );
+
+      case 'map':
+        return (
+          <div className="grid gap-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              {csvRows.length} rows found in <span className="font-medium text-foreground">{fileName}</span>. Choose which column holds each field.
+            </p>
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key} className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor={`map-${field.key}`} className="text-sm font-medium">
+                  {field.label}
+                  {field.required && <span className="text-destructive ml-0.5">*</span>}
+                </Label>
+                <Select
+                  value={mapping?.[field.key] === null ? UNMAPPED : String(mapping?.[field.key])}
+                  onValueChange={(value) => handleMappingChange(field.key, value)}
+                >
+                  <SelectTrigger id={`map-${field.key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        );
+
+      case 'review':
+        return (
+          <div className="grid gap-3 py-2">
+            <p className="text-sm">
+              <span className="text-green-600 font-medium">{validRows.length} ready to import</span>
+              {invalidRows.length > 0 && (
+                <span className="text-destructive font-medium">, {invalidRows.length} with errors will be skipped</span>
+              )}
+            </p>
+            <ScrollArea className="h-72 border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.rowNumber} className={cn(row.errors.length > 0 && 'bg-destructive/5')}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell>{row.data.name || '—'}</TableCell>
+                      <TableCell>{row.data.email || '—'}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <span className="flex items-start gap-1 text-destructive text-xs">
+                            <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                            {row.errors.join(', ')}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        );
+
+      case 'importing':
+        return (
+          <div className="grid gap-3 py-8">
+            <span className="text-sm font-medium">
+              Creating users {progress.completed} of {progress.total}...
+            </span>
+            <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} className="h-2" />
+          </div>
+        );
+
+      case 'done':
+        return (
+          <div className="grid gap-2 py-6 text-center">
+            <CheckCircle2 className="h-10 w-10 mx-auto text-green-600" />
+            <p className="font-medium">
+              {results.length - failedResults.length} of {rows.length} users imported
+            </p>
+            {(failedResults.length > 0 || invalidRows.length > 0) && (
+              <p className="text-sm text-muted-foreground">
+                {invalidRows.length} skipped by validation, {failedResults.length} rejected by the server
+              </p>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const renderFooter = () => {
+    switch (step) {
+      case 'upload':
+        return (
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        );
+      case 'map':
+        return (
+          <>
+            <Button type="button" variant="outline" onClick={() => setStep('upload')}>
+              Back
+            </Button>
+            <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isValidating} className="btn-glow">
+              {isValidating ? 'Validating...' : 'Validate rows'}
+            </Button>
+          </>
+        );
+      case 'review':
+        return (
+          <>
+            <Button type="button" variant="outline" onClick={() => setStep('map')}>
+              Back
+            </Button>
+            <Button onClick={handleImport} disabled={validRows.length === 0} className="btn-glow flex items-center gap-1">
+              <Upload className="h-4 w-4" />
+              Import {validRows.length} users
+            </Button>
+          </>
+        );
+      case 'importing':
+        return null;
+      case 'done':
+        return (
+          <>
+            {(failedResults.length > 0 || invalidRows.length > 0) && (
+              <Button type="button" variant="outline" onClick={downloadFailureReport} className="flex items-center gap-1">
+                <Download className="h-4 w-4" />
+                Download failure report
+              </Button>
+            )}
+            <Button onClick={onClose}>Done</Button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && step !== 'importing' && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-card/95 backdrop-blur-lg border border-border/40">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <Upload className="h-5 w-5 text-primary" />
+            Import users
+          </DialogTitle>
+          <DialogDescription>
+            Onboard several team members at once from a CSV file.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="animate-fade-in">{renderStep()}</div>
+        <DialogFooter className="gap-2">{renderFooter()}</DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserImportDialog;
@@ -0,0 +1,314 @@
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import HighlightedText from '@/components/HighlightedText';
+import { useAuth } from '@/contexts/AuthContext';
+import { useColumnPreferences } from '@/hooks/use-column-preferences';
+import { User, UserSort, UserSortKey } from '@/types';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Edit, Trash2 } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+
+interface UsersTableProps {
+  users: User[];
+  sort: UserSort | null;
+  onSortChange: (sort: UserSort | null) => void;
+  // Omitted when the current user may not edit or delete; the button is hidden
+  onEdit?: (user: User) => void;
+  onDelete?: (user: User) => void;
+  highlight?: string;
+  selectedIds: Set<number>;
+  onSelectedChange: (user: User, selected: boolean) => void;
+  onSelectPage: (selected: boolean) => void;
+}
+
+interface Column {
+  id: string;
+  label: string;
+  sortKey?: UserSortKey;
+  defaultWidth: number;
+  render: (user: User, highlight?: string) => React.ReactNode;
+}
+
+const MIN_COLUMN_WIDTH = 60;
+
+const columns: Column[] = [
+  {
+    id: 'avatar',
+    label: 'Avatar',
+    defaultWidth: 72,
+    render: (user) => (
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={user.avatar} alt={`${user.first_name} ${user.last_name}`} />
+        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+          {`${user.first_name.charAt(0)}${user.last_name.charAt(0)}`}
+        </AvatarFallback>
+      </Avatar>
+    ),
+  },
+  {
+    id: 'id',
+    label: 'ID',
+    sortKey: 'id',
+    defaultWidth: 80,
+    render: (user) => <span className="text-muted-foreground">{user.id}</span>,
+  },
+  {
+    id: 'first_name',
+    label: 'First name',
+    sortKey: 'first_name',
+    defaultWidth: 160,
+    render: (user, highlight) => (
+      <Link to={`/users/${user.id}`} className="font-medium hover:text-primary transition-colors">
+        <HighlightedText text={user.first_name} highlight={highlight} />
+      </Link>
+    ),
+  },
+  {
+    id: 'last_name',
+    label: 'Last name',
+    sortKey: 'last_name',
+    defaultWidth: 160,
+    render: (user, highlight) => (
+      <Link to={`/users/${user.id}`} className="font-medium hover:text-primary transition-colors">
+        <HighlightedText text={user.last_name} highlight={highlight} />
+      </Link>
+    ),
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    sortKey: 'email',
+    defaultWidth: 260,
+    render: (user, highlight) => (
+      <span className="text-muted-foreground">
+        <HighlightedText text={user.email} highlight={highlight} />
+      </span>
+    ),
+  },
+  {
+    id: 'job',
+    label: 'Job title',
+    defaultWidth: 180,
+    render: (user) => user.job || <span className="text-muted-foreground">—</span>,
+  },
+  {
+    id: 'department',
+    label: 'Department',
+    defaultWidth: 160,
+    render: (user) => user.department || <span className="text-muted-foreground">—</span>,
+  },
+  {
+    id: 'phone',
+    label: 'Phone',
+    defaultWidth: 150,
+    render: (user) => user.phone || <span className="text-muted-foreground">—</span>,
+  },
+  {
+    id: 'location',
+    label: 'Location',
+    defaultWidth: 160,
+    render: (user) => user.location || <span className="text-muted-foreground">—</span>,
+  },
+  {
+    id: 'start_date',
+    label: 'Start date',
+    defaultWidth: 120,
+    render: (user) => (user.start_date ? formatDate(user.start_date) : <span className="text-muted-foreground">—</span>),
+  },
+];
+
+// Contact details stay one click away in the Columns menu
+const defaultPreferences = { hidden: ['phone', 'start_date'], widths: {} };
+
+const UsersTable: React.FC<UsersTableProps> = ({
+  users,
+  sort,
+  onSortChange,
+  onEdit,
+  onDelete,
+  highlight,
+  selectedIds,
+  onSelectedChange,
+  onSelectPage,
+}) => {
+  const { email } = useAuth();
+  const { preferences, toggleColumn, setColumnWidth } = useColumnPreferences(
+    `users-table-columns:${email ?? 'anonymous'}`,
+    defaultPreferences
+  );
+  // Width of the column being dragged, only persisted once the drag ends
+  const [resizing, setResizing] = useState<{ id: string; width: number } | null>(null);
+
+  const visibleColumns = columns.filter((column) => !preferences.hidden.includes(column.id));
+  const hasActions = !!(onEdit || onDelete);
+  const selectedOnPage = users.filter((user) => selectedIds.has(user.id)).length;
+
+  const getWidth = (column: Column) =>
+    resizing?.id === column.id ? resizing.width : preferences.widths[column.id] ?? column.defaultWidth;
+
+  // Cycles asc -> desc -> unsorted
+  const handleSort = (key: UserSortKey) => {
+    if (sort?.key !== key) {
+      onSortChange({ key, direction: 'asc' });
+    } else if (sort.direction === 'asc') {
+      onSortChange({ key, direction: 'desc' });
+    } else {
+      onSortChange(null);
+    }
+  };
+
+  const startResize = (e: React.MouseEvent, column: Column) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = getWidth(column);
+    let width = startWidth;
+
+    const onMouseMove = (event: MouseEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX);
+      setResizing({ id: column.id, width });
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+      setColumnWidth(column.id, width);
+      setResizing(null);
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  const SortIcon = ({ sortKey }: { sortKey: UserSortKey }) => {
+    if (sort?.key !== sortKey) return <ArrowUpDown className="h-3.5 w-3.5 opacity-50" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />;
+  };
+
+  return (
+    <div className="bg-card/30 backdrop-blur-sm border border-border/40 rounded-lg animate-fade-in">
+      <div className="flex justify-end p-2 border-b border-border/40">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="flex items-center gap-1">
+              <Columns3 className="h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-44">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {columns.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={!preferences.hidden.includes(column.id)}
+                // Keep at least one data column on screen
+                disabled={visibleColumns.length === 1 && !preferences.hidden.includes(column.id)}
+                onCheckedChange={() => toggleColumn(column.id)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <Table containerClassName="max-h-[70vh]" className="table-fixed">
+        <TableHeader className="sticky top-0 z-10 bg-card">
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={selectedOnPage === 0 ? false : selectedOnPage === users.length ? true : 'indeterminate'}
+                onCheckedChange={(checked) => onSelectPage(checked === true)}
+                aria-label="Select all on page"
+              />
+            </TableHead>
+            {visibleColumns.map((column) => (
+              <TableHead key={column.id} style={{ width: getWidth(column) }} className="relative select-none">
+                {column.sortKey ? (
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.sortKey)}
+                    className="flex items-center gap-1 hover:text-foreground"
+                  >
+                    {column.label}
+                    <SortIcon sortKey={column.sortKey} />
+                  </button>
+                ) : (
+                  column.label
+                )}
+                <div
+                  onMouseDown={(e) => startResize(e, column)}
+                  className={cn(
+                    'absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/30',
+                    resizing?.id === column.id && 'bg-primary/50'
+                  )}
+                />
+              </TableHead>
+            ))}
+            {hasActions && <TableHead className="w-48 text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map((user) => (
+            <TableRow key={user.id} data-state={selectedIds.has(user.id) ? 'selected' : undefined}>
+              <TableCell>
+                <Checkbox
+                  checked={selectedIds.has(user.id)}
+                  onCheckedChange={(checked) => onSelectedChange(user, checked === true)}
+                  aria-label={`Select ${user.first_name} ${user.last_name}`}
+                />
+              </TableCell>
+              {visibleColumns.map((column) => (
+                <TableCell key={column.id} className="truncate">
+                  {column.render(user, highlight)}
+                </TableCell>
+              ))}
+              {hasActions && (
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    {onEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onEdit(user)}
+                        className="flex items-center gap-1 hover:bg-primary/10 hover:text-primary"
+                      >
+                        <Edit className="h-4 w-4" />
+                        Edit
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onDelete(user)}
+                        className="flex items-center gap-1 text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default UsersTable;
@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { ActivityEntry, ActivityType, User } from '@/types';
+
+const ACTIVITY_STORAGE_KEY = 'activity';
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 500;
+
+interface ActivityContextType {
+  entries: ActivityEntry[];
+  recordActivity: (userId: number, type: ActivityType, fields?: (keyof User)[]) => void;
+}
+
+const ActivityContext = createContext<ActivityContextType | null>(null);
+
+export const useActivity = () => {
+  const context = useContext(ActivityContext);
+  if (!context) {
+    throw new Error('useActivity must be used within an ActivityProvider');
+  }
+  return context;
+};
+
+// Kept per account like the trash; it only covers changes made in this browser
+const getActivityStorageKey = (email: string | null) => `${ACTIVITY_STORAGE_KEY}:${email ?? 'anonymous'}`;
+
+const loadActivity = (storageKey: string): ActivityEntry[] => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const ActivityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { email } = useAuth();
+  const storageKey = getActivityStorageKey(email);
+  const [activity, setActivity] = useState(() => ({ storageKey, entries: loadActivity(storageKey) }));
+
+  // Switch to the new account's activity as soon as someone else signs in
+  if (activity.storageKey !== storageKey) {
+    setActivity({ storageKey, entries: loadActivity(storageKey) });
+  }
+
+  useEffect(() => {
+    localStorage.setItem(activity.storageKey, JSON.stringify(activity.entries));
+  }, [activity]);
+
+  const recordActivity = useCallback((userId: number, type: ActivityType, fields?: (keyof User)[]) => {
+    setActivity((prev) => ({
+      ...prev,
+      entries: [
+        { userId, type, at: new Date().toISOString(), by: email ?? 'Unknown', ...(fields ? { fields } : {}) },
+        ...prev.entries,
+      ].slice(0, MAX_ENTRIES),
+    }));
+  }, [email]);
+
+  return (
+    <ActivityContext.Provider value={{ entries: activity.entries, recordActivity }}>
+      {children}
+    </ActivityContext.Provider>
+  );
+};
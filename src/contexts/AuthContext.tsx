@@ -1,13 +1,53 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from "sonner";
+import { api, API_REFRESH_PATH, setUnauthorizedHandler } from '@/lib/api';
+import { flushPendingDeletes } from '@/lib/pending-deletes';
+import { DEFAULT_ROLE, hasPermissions, ROLE_PERMISSIONS } from '@/lib/permissions';
+import { getLoginPath, getSafeReturnTo } from '@/lib/return-to';
+import { broadcastSession, subscribeToSession, withRefreshLock } from '@/lib/session-sync';
+import { useIdleTimer } from '@/hooks/use-idle-timer';
+import IdleWarningDialog from '@/components/IdleWarningDialog';
+import {
+  getTokenTiming,
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+  MAX_TIMEOUT_MS,
+  REFRESH_MARGIN_MS,
+  TokenTiming,
+} from '@/lib/session';
+import {
+  clearSession as clearStoredSession,
+  getStoredToken,
+  loadSession,
+  saveSession,
+  TokenPersistence,
+} from '@/lib/token-store';
+import { Permission, Role } from '@/types';
+import { useUnsavedChanges } from './UnsavedChangesContext';
+
+const LOGOUT_FLUSH_TIMEOUT_MS = 3000;
+
+interface LogoutOptions {
+  // 'idle' skips the unsaved-changes prompt and returns here after the next sign-in
+  reason?: 'user' | 'idle';
+}
 
 interface AuthContextType {
   isAuthenticated: boolean;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  email: string | null;
+  role: Role | null;
+  permissions: Permission[];
+  // True when the signed-in user holds every one of the given permissions
+  hasPermission: (...permissions: Permission[]) => boolean;
+  tokenIssuedAt: number | null;
+  tokenExpiresAt: number | null;
+  // remember: false keeps the session for this browser tab only
+  login: (email: string, password: string, remember?: boolean) => Promise<void>;
+  register: (email: string, password: string) => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   loading: boolean;
 }
 
@@ -21,42 +61,124 @@ export const useAuth = () => {
   return context;
 };
 
-export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
+interface AuthProviderProps {
+  children: React.ReactNode;
+  // Inactivity before the session ends, including the one-minute warning
+  idleTimeoutMs?: number;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, idleTimeoutMs = IDLE_TIMEOUT_MS }) => {
+  const [stored] = useState(loadSession);
+  const [token, setToken] = useState<string | null>(stored?.session.token ?? null);
+  const [email, setEmail] = useState<string | null>(stored?.session.email ?? null);
+  const [role, setRole] = useState<Role | null>(stored?.session.role ?? null);
+  const [timing, setTiming] = useState<TokenTiming | null>(stored?.session.timing ?? null);
+  const [persistence, setPersistence] = useState<TokenPersistence>(stored?.persistence ?? 'remembered');
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(!!token);
   const [loading, setLoading] = useState<boolean>(false);
+  // When the idle warning is showing, the time it signs the user out
+  const [idleDeadline, setIdleDeadline] = useState<number | null>(null);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { confirmDiscard, discardChanges } = useUnsavedChanges();
 
-  useEffect(() => {
-    // Check if token exists in localStorage on initial load
-    const storedToken = localStorage.getItem('token');
-    if (storedToken) {
-      setToken(storedToken);
-      setIsAuthenticated(true);
-    }
+  const applySession = useCallback((sessionToken: string, sessionEmail: string, sessionRole: Role, sessionTiming: TokenTiming) => {
+    setToken(sessionToken);
+    setEmail(sessionEmail);
+    setRole(sessionRole);
+    setTiming(sessionTiming);
+    setIsAuthenticated(true);
   }, []);
 
-  const login = async (email: string, password: string) => {
-    setLoading(true);
-    try {
-      const response = await fetch('https://reqres.in/api/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
+  const clearSession = useCallback(() => {
+    clearStoredSession();
+    setToken(null);
+    setEmail(null);
+    setRole(null);
+    setTiming(null);
+    setIsAuthenticated(false);
+    setIdleDeadline(null);
+  }, []);
+
+  const startSession = (
+    sessionToken: string,
+    sessionEmail: string,
+    sessionRole: Role,
+    sessionPersistence: TokenPersistence
+  ) => {
+    const sessionTiming = getTokenTiming(sessionToken);
+    saveSession({ token: sessionToken, email: sessionEmail, role: sessionRole, timing: sessionTiming }, sessionPersistence);
+    setPersistence(sessionPersistence);
+    applySession(sessionToken, sessionEmail, sessionRole, sessionTiming);
+    broadcastSession({
+      type: 'login',
+      token: sessionToken,
+      email: sessionEmail,
+      role: sessionRole,
+      timing: sessionTiming,
+      persistence: sessionPersistence,
+    });
+    navigate(getSafeReturnTo(searchParams.get('returnTo')), { replace: true });
+  };
+
+  // Sign-out the user didn't ask for: the token expired or the backend rejected it
+  const expireSession = useCallback(() => {
+    if (!getStoredToken()) return;
+    discardChanges();
+    clearSession();
+    broadcastSession({ type: 'logout' });
+    navigate(getLoginPath(window.location), { replace: true });
+    toast.error('Session expired', { description: 'Please sign in again to continue' });
+  }, [clearSession, discardChanges, navigate]);
+
+  useEffect(() => {
+    setUnauthorizedHandler(expireSession);
+    return () => setUnauthorizedHandler(null);
+  }, [expireSession]);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Login failed');
+  // Refresh shortly before the token expires, or end the session when it does.
+  // Only the server's expiry counts; without one a 401 or the idle timeout ends it.
+  useEffect(() => {
+    if (!token || !timing?.expiresAt) return;
+    const dueAt = API_REFRESH_PATH ? timing.expiresAt - REFRESH_MARGIN_MS : timing.expiresAt;
+
+    const timeout = setTimeout(() => {
+      if (!API_REFRESH_PATH) {
+        expireSession();
+        return;
       }
+      withRefreshLock(async () => {
+        // Another tab may have refreshed, or signed out, while this one waited
+        const current = loadSession();
+        if (!current) return;
+        if (current.session.token !== token) {
+          setToken(current.session.token);
+          setTiming(current.session.timing);
+          return;
+        }
+
+        try {
+          const data = await api.refreshToken();
+          const refreshedTiming = getTokenTiming(data.token, data.expires_in);
+          saveSession({ token: data.token, email, role, timing: refreshedTiming }, persistence);
+          setToken(data.token);
+          setTiming(refreshedTiming);
+          broadcastSession({ type: 'refresh', token: data.token, timing: refreshedTiming });
+        } catch (error) {
+          console.error('Token refresh error:', error);
+          expireSession();
+        }
+      });
+    }, Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMEOUT_MS));
+
+    return () => clearTimeout(timeout);
+  }, [token, email, role, timing, persistence, expireSession]);
 
-      const data = await response.json();
-      localStorage.setItem('token', data.token);
-      setToken(data.token);
-      setIsAuthenticated(true);
-      navigate('/users');
+  const login = async (loginEmail: string, password: string, remember = true) => {
+    setLoading(true);
+    try {
+      const data = await api.login(loginEmail, password);
+      startSession(data.token, loginEmail, data.role ?? DEFAULT_ROLE, remember ? 'remembered' : 'session');
       toast.success('Login successful', { description: 'Welcome back!' });
     } catch (error) {
       console.error('Login error:', error);
@@ -68,17 +190,133 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    setToken(null);
-    setIsAuthenticated(false);
-    navigate('/login');
-    toast.info('Logged out successfully');
+  // Signs the new account straight in with the token the endpoint returns
+  const register = async (registerEmail: string, password: string) => {
+    setLoading(true);
+    try {
+      const data = await api.register(registerEmail, password);
+      startSession(data.token, registerEmail, data.role ?? DEFAULT_ROLE, 'remembered');
+      toast.success('Account created', { description: 'Welcome to EmployWise!' });
+    } catch (error) {
+      console.error('Registration error:', error);
+      toast.error('Registration failed', {
+        description: error instanceof Error ? error.message : 'Could not create the account'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logout = useCallback(async ({ reason = 'user' }: LogoutOptions = {}) => {
+    if (reason === 'idle') {
+      discardChanges();
+    } else if (!(await confirmDiscard())) {
+      return;
+    }
+
+    // Send any deletes still in their undo window while the token is valid,
+    // without holding up the sign-out on a slow network
+    await flushPendingDeletes(LOGOUT_FLUSH_TIMEOUT_MS);
+    clearSession();
+    broadcastSession({ type: 'logout' });
+    if (reason === 'idle') {
+      navigate(getLoginPath(window.location), { replace: true });
+      toast.info('Signed out due to inactivity', { description: 'Sign in again to pick up where you left off' });
+    } else {
+      navigate('/login');
+      toast.info('Logged out successfully');
+    }
+  }, [clearSession, confirmDiscard, discardChanges, navigate]);
+
+  const markActive = useIdleTimer({
+    timeout: Math.max(idleTimeoutMs - IDLE_WARNING_MS, 0),
+    // Paused while the warning is up; only "Stay signed in" counts as activity then
+    enabled: isAuthenticated && idleDeadline === null,
+    onIdle: () => setIdleDeadline(Date.now() + IDLE_WARNING_MS),
+    onActivity: () => broadcastSession({ type: 'activity' }),
+  });
+
+  const handleStaySignedIn = () => {
+    setIdleDeadline(null);
+    broadcastSession({ type: 'activity' });
+  };
+
+  // Mirror sign-ins, sign-outs, refreshes and activity from other open tabs.
+  // Sessions are saved here too, since session-only storage isn't shared.
+  useEffect(() => subscribeToSession((message) => {
+    switch (message.type) {
+      case 'login':
+        saveSession(
+          { token: message.token, email: message.email, role: message.role, timing: message.timing },
+          message.persistence
+        );
+        setPersistence(message.persistence);
+        applySession(message.token, message.email, message.role, message.timing);
+        // A tab waiting on the sign-in page follows along
+        if (['/login', '/register'].includes(window.location.pathname)) {
+          navigate(getSafeReturnTo(new URLSearchParams(window.location.search).get('returnTo')), { replace: true });
+        }
+        break;
+      case 'refresh': {
+        const current = loadSession();
+        if (current) {
+          saveSession({ ...current.session, token: message.token, timing: message.timing }, current.persistence);
+        }
+        setToken(message.token);
+        setTiming(message.timing);
+        break;
+      }
+      case 'logout':
+        if (!isAuthenticated) break;
+        // ProtectedRoute takes care of the redirect to login
+        discardChanges();
+        clearSession();
+        toast.info('Signed out', { description: 'You signed out in another tab' });
+        break;
+      case 'activity':
+        setIdleDeadline(null);
+        markActive();
+        break;
+    }
+  }), [applySession, clearSession, discardChanges, isAuthenticated, markActive, navigate]);
+
+  const handleIdleTimeout = useCallback(() => {
+    setIdleDeadline(null);
+    logout({ reason: 'idle' });
+  }, [logout]);
+
+  // Signing out from the warning is a normal sign-out, not an inactive one
+  const handleIdleWarningSignOut = () => {
+    setIdleDeadline(null);
+    logout();
   };
 
+  const hasPermission = useCallback((...required: Permission[]) => hasPermissions(role, required), [role]);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, token, login, logout, loading }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        token,
+        email,
+        role,
+        permissions: role ? ROLE_PERMISSIONS[role] : [],
+        hasPermission,
+        tokenIssuedAt: timing?.issuedAt ?? null,
+        tokenExpiresAt: timing?.expiresAt ?? null,
+        login,
+        register,
+        logout,
+        loading,
+      }}
+    >
       {children}
+      <IdleWarningDialog
+        deadline={idleDeadline}
+        onStaySignedIn={handleStaySignedIn}
+        onSignOut={handleIdleWarningSignOut}
+        onTimeout={handleIdleTimeout}
+      />
     </AuthContext.Provider>
   );
 };
@@ -0,0 +1,98 @@
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { TrashEntry, User } from '@/types';
+
+export const TRASH_RETENTION_DAYS = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30;
+
+const TRASH_STORAGE_KEY = 'trash';
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+interface TrashContextType {
+  entries: TrashEntry[];
+  addToTrash: (user: User) => void;
+  removeFromTrash: (id: number) => void;
+}
+
+const TrashContext = createContext<TrashContextType | null>(null);
+
+export const useTrash = () => {
+  const context = useContext(TrashContext);
+  if (!context) {
+    throw new Error('useTrash must be used within a TrashProvider');
+  }
+  return context;
+};
+
+// Drops entries older than the retention period
+const pruneExpired = (entries: TrashEntry[]) => {
+  const cutoff = Date.now() - RETENTION_MS;
+  return entries.filter((entry) => new Date(entry.deletedAt).getTime() > cutoff);
+};
+
+// Each account keeps its own trash, so the next person signing in on this
+// browser can't see or restore what the previous one deleted
+const getTrashStorageKey = (email: string | null) => `${TRASH_STORAGE_KEY}:${email ?? 'anonymous'}`;
+
+// Trash saved before it was kept per account can't be attributed to anyone
+localStorage.removeItem(TRASH_STORAGE_KEY);
+
+const loadTrash = (storageKey: string): TrashEntry[] => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? pruneExpired(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const TrashProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { email } = useAuth();
+  const storageKey = getTrashStorageKey(email);
+  const [trash, setTrash] = useState(() => ({ storageKey, entries: loadTrash(storageKey) }));
+  const { entries } = trash;
+
+  // Switch to the new account's trash as soon as someone else signs in
+  if (trash.storageKey !== storageKey) {
+    setTrash({ storageKey, entries: loadTrash(storageKey) });
+  }
+
+  const setEntries = useCallback((update: (prev: TrashEntry[]) => TrashEntry[]) => {
+    setTrash((prev) => {
+      const next = update(prev.entries);
+      return next === prev.entries ? prev : { ...prev, entries: next };
+    });
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(trash.storageKey, JSON.stringify(trash.entries));
+  }, [trash]);
+
+  // Empty expired entries while the app stays open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setEntries((prev) => {
+        const pruned = pruneExpired(prev);
+        return pruned.length === prev.length ? prev : pruned;
+      });
+    }, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [setEntries]);
+
+  const addToTrash = useCallback((user: User) => {
+    setEntries((prev) => [
+      { user, deletedAt: new Date().toISOString(), deletedBy: email ?? 'Unknown' },
+      ...prev.filter((entry) => entry.user.id !== user.id),
+    ]);
+  }, [email, setEntries]);
+
+  const removeFromTrash = useCallback((id: number) => {
+    setEntries((prev) => prev.filter((entry) => entry.user.id !== id));
+  }, [setEntries]);
+
+  return (
+    <TrashContext.Provider value={{ entries, addToTrash, removeFromTrash }}>
+      {children}
+    </TrashContext.Provider>
+  );
+};
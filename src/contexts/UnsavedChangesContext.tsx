@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useId } from 'react';
+import { useBlocker } from 'react-router-dom';
+import UnsavedChangesDialog from '@/components/UnsavedChangesDialog';
+
+interface UnsavedChangesContextType {
+  setDirty: (id: string, dirty: boolean) => void;
+  // Resolves true when there is nothing to lose or the user chose to discard
+  confirmDiscard: () => Promise<boolean>;
+  // Drops unsaved edits without asking, for sign-outs the user didn't choose
+  discardChanges: () => void;
+}
+
+const UnsavedChangesContext = createContext<UnsavedChangesContextType | null>(null);
+
+export const useUnsavedChanges = () => {
+  const context = useContext(UnsavedChangesContext);
+  if (!context) {
+    throw new Error('useUnsavedChanges must be used within an UnsavedChangesProvider');
+  }
+  return context;
+};
+
+// Marks the calling form as holding unsaved edits while isDirty is true
+export const useUnsavedChangesGuard = (isDirty: boolean) => {
+  const { setDirty, confirmDiscard } = useUnsavedChanges();
+  const id = useId();
+
+  useEffect(() => {
+    setDirty(id, isDirty);
+    return () => setDirty(id, false);
+  }, [id, isDirty, setDirty]);
+
+  return confirmDiscard;
+};
+
+export const UnsavedChangesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // A ref rather than state so a discard followed by a navigation in the same
+  // tick isn't blocked by a stale value
+  const dirtyForms = useRef(new Set<string>());
+  const [pendingConfirm, setPendingConfirm] = useState<((discard: boolean) => void) | null>(null);
+
+  const blocker = useBlocker(useCallback(() => dirtyForms.current.size > 0, []));
+
+  // Reloading or closing the tab can only be guarded by the browser's own prompt
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (dirtyForms.current.size > 0) {
+        e.preventDefault();
+      }
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
+
+  const setDirty = useCallback((id: string, dirty: boolean) => {
+    if (dirty) {
+      dirtyForms.current.add(id);
+    } else {
+      dirtyForms.current.delete(id);
+    }
+  }, []);
+
+  const confirmDiscard = useCallback(() => {
+    if (dirtyForms.current.size === 0) return Promise.resolve(true);
+    return new Promise<boolean>((resolve) => setPendingConfirm(() => resolve));
+  }, []);
+
+  const discardChanges = useCallback(() => {
+    dirtyForms.current.clear();
+  }, []);
+
+  const handleDiscard = () => {
+    dirtyForms.current.clear();
+    if (blocker.state === 'blocked') blocker.proceed();
+    pendingConfirm?.(true);
+    setPendingConfirm(null);
+  };
+
+  const handleKeepEditing = () => {
+    if (blocker.state === 'blocked') blocker.reset();
+    pendingConfirm?.(false);
+    setPendingConfirm(null);
+  };
+
+  return (
+    <UnsavedChangesContext.Provider value={{ setDirty, confirmDiscard, discardChanges }}>
+      {children}
+      <UnsavedChangesDialog
+        isOpen={blocker.state === 'blocked' || pendingConfirm !== null}
+        onKeepEditing={handleKeepEditing}
+        onDiscard={handleDiscard}
+      />
+    </UnsavedChangesContext.Provider>
+  );
+};
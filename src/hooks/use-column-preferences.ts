@@ -0,0 +1,56 @@
+import * as React from "react"
+
+export interface ColumnPreferences {
+  hidden: string[]
+  widths: Record<string, number>
+}
+
+const loadPreferences = (storageKey: string, defaults: ColumnPreferences): ColumnPreferences => {
+  try {
+    const stored = localStorage.getItem(storageKey)
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults
+  } catch {
+    return defaults
+  }
+}
+
+// Column visibility and widths, persisted in localStorage under storageKey.
+// defaults should be a stable value such as a module constant.
+export function useColumnPreferences(storageKey: string, defaults: ColumnPreferences) {
+  const [preferences, setPreferences] = React.useState(() => loadPreferences(storageKey, defaults))
+
+  // Reload when the key changes, e.g. another user signs in
+  React.useEffect(() => {
+    setPreferences(loadPreferences(storageKey, defaults))
+  }, [storageKey, defaults])
+
+  const update = React.useCallback(
+    (updater: (prev: ColumnPreferences) => ColumnPreferences) => {
+      setPreferences((prev) => {
+        const next = updater(prev)
+        localStorage.setItem(storageKey, JSON.stringify(next))
+        return next
+      })
+    },
+    [storageKey]
+  )
+
+  const toggleColumn = React.useCallback(
+    (id: string) =>
+      update((prev) => ({
+        ...prev,
+        hidden: prev.hidden.includes(id)
+          ? prev.hidden.filter((hiddenId) => hiddenId !== id)
+          : [...prev.hidden, id],
+      })),
+    [update]
+  )
+
+  const setColumnWidth = React.useCallback(
+    (id: string, width: number) =>
+      update((prev) => ({ ...prev, widths: { ...prev.widths, [id]: width } })),
+    [update]
+  )
+
+  return { preferences, toggleColumn, setColumnWidth }
+}
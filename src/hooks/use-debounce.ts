@@ -0,0 +1,12 @@
+import * as React from "react"
+
+export function useDebounce<T>(value: T, delayMs = 300) {
+  const [debouncedValue, setDebouncedValue] = React.useState(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debouncedValue
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+// mousemove and scroll fire constantly; restarting the timer once a second is plenty
+const ACTIVITY_THROTTLE_MS = 1000;
+
+interface IdleTimerOptions {
+  timeout: number;
+  enabled: boolean;
+  onIdle: () => void;
+  // Called (throttled) on every burst of user activity
+  onActivity?: () => void;
+}
+
+// Calls onIdle once `timeout` ms pass without user activity, while enabled.
+// Returns a function that restarts the timer, for activity seen elsewhere.
+export function useIdleTimer({ timeout, enabled, onIdle, onActivity }: IdleTimerOptions) {
+  const onIdleRef = useRef(onIdle);
+  const onActivityRef = useRef(onActivity);
+  const restartRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+    onActivityRef.current = onActivity;
+  }, [onIdle, onActivity]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let lastActivity = 0;
+
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeout);
+    };
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity < ACTIVITY_THROTTLE_MS) return;
+      lastActivity = now;
+      restart();
+      onActivityRef.current?.();
+    };
+
+    restart();
+    restartRef.current = restart;
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      restartRef.current = () => {};
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [enabled, timeout]);
+
+  return useCallback(() => restartRef.current(), []);
+}
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { UserSort, UserSortKey } from '@/types';
+
+export type ViewMode = 'grid' | 'table';
+
+const SORT_KEYS: UserSortKey[] = ['id', 'first_name', 'last_name', 'email'];
+
+// Parses "key:direction", e.g. "last_name:desc"
+const parseSort = (value: string | null): UserSort | null => {
+  if (!value) return null;
+  const [key, direction = 'asc'] = value.split(':');
+  if (!SORT_KEYS.includes(key as UserSortKey) || (direction !== 'asc' && direction !== 'desc')) {
+    return null;
+  }
+  return { key: key as UserSortKey, direction };
+};
+
+// Keeps the users list state (page, search, view mode, sort) in the query
+// string. Page changes push history entries so back/forward pages through
+// the list; everything else replaces the current entry.
+export function useUsersListParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const pageParam = Number(searchParams.get('page'));
+  const page = Number.isInteger(pageParam) && pageParam > 0 ? pageParam : 1;
+  const search = searchParams.get('q') ?? '';
+  const viewMode: ViewMode = searchParams.get('view') === 'table' ? 'table' : 'grid';
+  const sortParam = searchParams.get('sort');
+  // Stable between renders, since it is part of the list query key
+  const sort = useMemo(() => parseSort(sortParam), [sortParam]);
+
+  const update = (changes: Record<string, string | null>, replace: boolean) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      return next;
+    }, { replace });
+  };
+
+  return {
+    page,
+    search,
+    viewMode,
+    sort,
+    setPage: (nextPage: number) => update({ page: nextPage > 1 ? String(nextPage) : null }, false),
+    setSearch: (value: string) => update({ q: value, page: null }, true),
+    setViewMode: (mode: ViewMode) => update({ view: mode === 'grid' ? null : mode }, true),
+    setSort: (nextSort: UserSort | null) =>
+      // Back to the first page, since the rows on any other page change
+      update({ sort: nextSort ? `${nextSort.key}:${nextSort.direction}` : null, page: null }, true),
+  };
+}
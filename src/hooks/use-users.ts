@@ -0,0 +1,415 @@
+import { keepPreviousData, QueryClient, QueryKey, queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, API_SEARCH_PARAM } from '@/lib/api';
+import { cancelPendingDelete, flushPendingDelete, isDeletePending, schedulePendingDelete } from '@/lib/pending-deletes';
+import { BatchResult, runBatch } from '@/lib/batch';
+import { useActivity } from '@/contexts/ActivityContext';
+import { useTrash } from '@/contexts/TrashContext';
+import { CreateUserResponse, UpdateUserData, User, UserResponse, UserSort } from '@/types';
+import { ImportRow } from '@/lib/import-users';
+
+export const usersKeys = {
+  all: ['users'] as const,
+  lists: () => [...usersKeys.all, 'list'] as const,
+  list: (page: number) => [...usersKeys.lists(), page] as const,
+  index: () => [...usersKeys.lists(), 'all'] as const,
+  search: (query: string, page: number) => [...usersKeys.lists(), 'search', query, page] as const,
+  sorted: (query: string, sort: UserSort, page: number) =>
+    [...usersKeys.lists(), 'sorted', query, `${sort.key}:${sort.direction}`, page] as const,
+  details: () => [...usersKeys.all, 'detail'] as const,
+  detail: (id: number) => [...usersKeys.details(), id] as const,
+};
+
+export const userMatchesSearch = (user: User, query: string) => {
+  const q = query.toLowerCase();
+  return (
+    user.first_name.toLowerCase().includes(q) ||
+    user.last_name.toLowerCase().includes(q) ||
+    `${user.first_name} ${user.last_name}`.toLowerCase().includes(q) ||
+    user.email.toLowerCase().includes(q)
+  );
+};
+
+export const sortUsers = (users: User[], sort: UserSort | null) => {
+  if (!sort) return users;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...users].sort((a, b) => {
+    const left = a[sort.key];
+    const right = b[sort.key];
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * factor;
+    }
+    return String(left).localeCompare(String(right)) * factor;
+  });
+};
+
+// Every user across all pages, used to search and sort when the backend can't
+const allUsersQueryOptions = () =>
+  queryOptions({
+    queryKey: usersKeys.index(),
+    queryFn: () => api.getAllUsers(),
+  });
+
+const paginate = (users: User[], page: number, perPage: number): UserResponse => ({
+  page,
+  per_page: perPage,
+  total: users.length,
+  total_pages: Math.max(Math.ceil(users.length / perPage), 1),
+  data: users.slice((page - 1) * perPage, page * perPage),
+});
+
+const searchUsers = async (queryClient: QueryClient, query: string, page: number): Promise<UserResponse> => {
+  if (API_SEARCH_PARAM) {
+    return api.getUsers(page, query);
+  }
+
+  const index = await queryClient.fetchQuery(allUsersQueryOptions());
+  return paginate(index.data.filter((user) => userMatchesSearch(user, query)), page, index.per_page);
+};
+
+// The backend has no sort parameter, so every matching user is fetched and
+// sorted before the page is cut out of them
+const sortedUsers = async (queryClient: QueryClient, query: string, sort: UserSort, page: number) => {
+  const index =
+    query && API_SEARCH_PARAM
+      ? await api.getAllUsers(query)
+      : await queryClient.fetchQuery(allUsersQueryOptions());
+  const matches =
+    query && !API_SEARCH_PARAM ? index.data.filter((user) => userMatchesSearch(user, query)) : index.data;
+  return paginate(sortUsers(matches, sort), page, index.per_page);
+};
+
+// Every user matching `search` (or every user, when empty) across all pages
+export const fetchAllMatchingUsers = async (queryClient: QueryClient, search = ''): Promise<User[]> => {
+  if (search && API_SEARCH_PARAM) {
+    return (await api.getAllUsers(search)).data;
+  }
+  const index = await queryClient.fetchQuery(allUsersQueryOptions());
+  const users = index.data.filter((user) => !isDeletePending(user.id));
+  return search ? users.filter((user) => userMatchesSearch(user, search)) : users;
+};
+
+export const usersQueryOptions = (queryClient: QueryClient, page: number, search = '', sort: UserSort | null = null) =>
+  queryOptions<UserResponse, Error, UserResponse, QueryKey>({
+    queryKey: sort
+      ? usersKeys.sorted(search, sort, page)
+      : search
+        ? usersKeys.search(search, page)
+        : usersKeys.list(page),
+    queryFn: () => {
+      if (sort) return sortedUsers(queryClient, search, sort, page);
+      return search ? searchUsers(queryClient, search, page) : api.getUsers(page);
+    },
+  });
+
+export const userQueryOptions = (id: number) =>
+  queryOptions({
+    queryKey: usersKeys.detail(id),
+    queryFn: () => api.getUser(id),
+  });
+
+export const applyUserChanges = (user: User, userData: UpdateUserData): User => ({
+  ...user,
+  first_name: userData.first_name || user.first_name,
+  last_name: userData.last_name || user.last_name,
+  email: userData.email || user.email,
+  avatar: userData.avatar || user.avatar,
+  job: userData.job ?? user.job,
+  department: userData.department ?? user.department,
+  phone: userData.phone ?? user.phone,
+  location: userData.location ?? user.location,
+  start_date: userData.start_date ?? user.start_date,
+});
+
+// Applies `update` to every cached list page
+const updateCachedLists = (queryClient: QueryClient, update: (data: UserResponse) => UserResponse) => {
+  queryClient.setQueriesData<UserResponse>({ queryKey: usersKeys.lists() }, (data) =>
+    data ? update(data) : data
+  );
+};
+
+// Drops users whose DELETE is still waiting out its undo window, so a refetch
+// in the meantime doesn't bring them back
+const withoutPendingDeletes = (data: UserResponse): UserResponse => {
+  const users = data.data.filter((user) => !isDeletePending(user.id));
+  if (users.length === data.data.length) return data;
+  return { ...data, total: data.total - (data.data.length - users.length), data: users };
+};
+
+export function useUsers(page: number, search = '', sort: UserSort | null = null) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    ...usersQueryOptions(queryClient, page, search, sort),
+    placeholderData: keepPreviousData,
+    select: withoutPendingDeletes,
+  });
+}
+
+export function useUser(id: number) {
+  return useQuery({
+    ...userQueryOptions(id),
+    enabled: Number.isInteger(id) && id > 0,
+  });
+}
+
+// Builds the list entry for a user the API just created
+const toCreatedUser = (created: CreateUserResponse, userData: UpdateUserData): User => ({
+  id: Number(created.id),
+  email: userData.email || '',
+  first_name: userData.first_name || '',
+  last_name: userData.last_name || '',
+  avatar: userData.avatar || '/placeholder.svg',
+  job: userData.job,
+  department: userData.department,
+  phone: userData.phone,
+  location: userData.location,
+  start_date: userData.start_date,
+});
+
+const prependToPage = (queryClient: QueryClient, page: number, users: User[]) => {
+  queryClient.setQueryData<UserResponse>(usersKeys.list(page), (data) =>
+    data ? { ...data, total: data.total + users.length, data: [...users, ...data.data] } : data
+  );
+};
+
+export function useCreateUser(page: number) {
+  const queryClient = useQueryClient();
+  const { recordActivity } = useActivity();
+
+  return useMutation({
+    mutationFn: (userData: UpdateUserData) => api.createUser(userData),
+    onSuccess: (created, userData) => {
+      prependToPage(queryClient, page, [toCreatedUser(created, userData)]);
+      recordActivity(Number(created.id), 'created');
+      queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+    },
+  });
+}
+
+interface ListSnapshot {
+  previousLists: [QueryKey, UserResponse | undefined][];
+}
+
+// Cancels in-flight list fetches and snapshots every cached page so an
+// optimistic change can be rolled back
+const snapshotLists = async (queryClient: QueryClient): Promise<ListSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: usersKeys.lists() });
+  return { previousLists: queryClient.getQueriesData<UserResponse>({ queryKey: usersKeys.lists() }) };
+};
+
+const restoreLists = (queryClient: QueryClient, snapshot: ListSnapshot | undefined) => {
+  snapshot?.previousLists.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+};
+
+// Fields of `user` that `userData` changes, for the activity log. All of
+// them when the user isn't cached.
+const getChangedFields = (user: User | undefined, userData: UpdateUserData) =>
+  (Object.keys(userData) as (keyof UpdateUserData)[]).filter(
+    (field): field is keyof UpdateUserData & keyof User =>
+      field !== 'name' && (!user || (userData[field] ?? '') !== (user[field] ?? ''))
+  );
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+  const { recordActivity } = useActivity();
+
+  return useMutation({
+    mutationFn: ({ id, userData }: { id: number; userData: UpdateUserData }) => api.updateUser(id, userData),
+    onMutate: async ({ id, userData }) => {
+      const snapshot = await snapshotLists(queryClient);
+      const previousUser = snapshot.previousLists
+        .flatMap(([, data]) => data?.data ?? [])
+        .find((user) => user.id === id);
+      updateCachedLists(queryClient, (data) => ({
+        ...data,
+        data: data.data.map((user) => (user.id === id ? applyUserChanges(user, userData) : user)),
+      }));
+      return { ...snapshot, changedFields: getChangedFields(previousUser, userData) };
+    },
+    onError: (_, __, snapshot) => {
+      restoreLists(queryClient, snapshot);
+    },
+    onSuccess: (_, { id }, { changedFields }) => {
+      recordActivity(id, 'updated', changedFields);
+    },
+    onSettled: (_, __, { id }) => {
+      queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: usersKeys.detail(id) });
+    },
+  });
+}
+
+export interface CachedPosition {
+  queryKey: QueryKey;
+  index: number;
+}
+
+// Removes a user from every cached page, remembering where it was
+export const removeUserFromLists = (queryClient: QueryClient, id: number): CachedPosition[] => {
+  const positions: CachedPosition[] = [];
+  queryClient.getQueriesData<UserResponse>({ queryKey: usersKeys.lists() }).forEach(([queryKey, data]) => {
+    const index = data?.data.findIndex((user) => user.id === id) ?? -1;
+    if (index === -1) return;
+    positions.push({ queryKey, index });
+    queryClient.setQueryData<UserResponse>(queryKey, {
+      ...data,
+      total: data.total - 1,
+      data: data.data.filter((user) => user.id !== id),
+    });
+  });
+  return positions;
+};
+
+// Puts a removed user back where removeUserFromLists found it
+export const restoreUserToLists = (queryClient: QueryClient, user: User, positions: CachedPosition[]) => {
+  positions.forEach(({ queryKey, index }) => {
+    queryClient.setQueryData<UserResponse>(queryKey, (data) => {
+      if (!data || data.data.some((existing) => existing.id === user.id)) return data;
+      const users = [...data.data];
+      users.splice(Math.min(index, users.length), 0, user);
+      return { ...data, total: data.total + 1, data: users };
+    });
+  });
+};
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ user }: { user: User; positions: CachedPosition[] }) => api.deleteUser(user.id),
+    onError: (_, { user, positions }) => {
+      restoreUserToLists(queryClient, user, positions);
+    },
+    onSuccess: (_, { user }) => {
+      queryClient.removeQueries({ queryKey: usersKeys.detail(user.id) });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+    },
+  });
+}
+
+// Hides the user right away and only sends the DELETE once the undo window
+// has passed (or pending deletes are flushed). The user is kept in the trash.
+export function useSoftDeleteUser() {
+  const queryClient = useQueryClient();
+  const { addToTrash, removeFromTrash } = useTrash();
+  const { recordActivity } = useActivity();
+  const { mutateAsync } = useDeleteUser();
+
+  // `settled` resolves with the outcome once the DELETE has been sent, or
+  // with null when it is cancelled instead
+  const softDelete = (user: User, options?: { onError?: (error: Error) => void }) => {
+    let settle: (result: BatchResult<User> | null) => void;
+    const settled = new Promise<BatchResult<User> | null>((resolve) => {
+      settle = resolve;
+    });
+
+    const positions = removeUserFromLists(queryClient, user.id);
+    addToTrash(user);
+    schedulePendingDelete(
+      user.id,
+      () =>
+        mutateAsync({ user, positions })
+          .then(() => {
+            recordActivity(user.id, 'deleted');
+            settle({ item: user, ok: true });
+          })
+          .catch((error: Error) => {
+            removeFromTrash(user.id);
+            options?.onError?.(error);
+            settle({ item: user, ok: false, error: error.message });
+          }),
+      { onCancel: () => settle(null) }
+    );
+
+    // Returns false when the DELETE has already been sent
+    const undo = () => {
+      if (!cancelPendingDelete(user.id)) return false;
+      restoreUserToLists(queryClient, user, positions);
+      removeFromTrash(user.id);
+      return true;
+    };
+    return { undo, settled };
+  };
+
+  return { softDelete };
+}
+
+// Brings a trashed user back. If the DELETE is still pending it is simply
+// cancelled, otherwise the user is re-created from the trashed copy, which
+// gives them a new id.
+export function useRestoreUser() {
+  const queryClient = useQueryClient();
+  const { removeFromTrash } = useTrash();
+  const { recordActivity } = useActivity();
+  const { mutateAsync: createUser } = useCreateUser(1);
+
+  return async (user: User) => {
+    if (cancelPendingDelete(user.id)) {
+      await queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+      recordActivity(user.id, 'restored');
+    } else {
+      const { id, ...userData } = user;
+      const created = await createUser({ ...userData, name: `${user.first_name} ${user.last_name}` });
+      recordActivity(Number(created.id), 'restored');
+    }
+    removeFromTrash(user.id);
+  };
+}
+
+// Removes a user from the trash for good, sending its DELETE now if it is
+// still waiting out the undo window. Returns false when the DELETE had
+// already been sent, so only the local copy was dropped.
+export function usePurgeUser() {
+  const { removeFromTrash } = useTrash();
+
+  return (id: number) => {
+    const sent = flushPendingDelete(id);
+    removeFromTrash(id);
+    return sent;
+  };
+}
+
+// Batch create and update, reporting progress and a per-user result. Bulk
+// deletes go through useSoftDeleteUser, like single deletes.
+export function useBulkUserActions() {
+  const queryClient = useQueryClient();
+  const { recordActivity } = useActivity();
+
+  const createUsers = async (rows: ImportRow[], onProgress?: (completed: number, total: number) => void) => {
+    const createdUsers: User[] = [];
+    const results = await runBatch(
+      rows,
+      async (row) => {
+        const created = await api.createUser(row.data);
+        createdUsers.push(toCreatedUser(created, row.data));
+        recordActivity(Number(created.id), 'created');
+      },
+      { onProgress }
+    );
+    prependToPage(queryClient, 1, createdUsers);
+    queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+    return results;
+  };
+
+  const updateUsers = async (
+    users: User[],
+    userData: UpdateUserData,
+    onProgress?: (completed: number, total: number) => void
+  ) => {
+    const results = await runBatch(users, (user) => api.patchUser(user.id, userData), { onProgress });
+    const updatedIds = new Set(results.filter((result) => result.ok).map(({ item }) => item.id));
+    updatedIds.forEach((id) => recordActivity(id, 'updated', getChangedFields(undefined, userData)));
+    updateCachedLists(queryClient, (data) => ({
+      ...data,
+      data: data.data.map((user) => (updatedIds.has(user.id) ? applyUserChanges(user, userData) : user)),
+    }));
+    queryClient.invalidateQueries({ queryKey: usersKeys.lists() });
+    return results;
+  };
+
+  return { createUsers, updateUsers };
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { CreateUserResponse, LoginResponse, RefreshTokenResponse, RegisterResponse, SingleUserResponse, UpdateUserData, UserResponse } from '@/types';
+import {
+  createUserResponseSchema,
+  emptyResponseSchema,
+  loginResponseSchema,
+  refreshTokenResponseSchema,
+  registerResponseSchema,
+  singleUserResponseSchema,
+  updateUserResponseSchema,
+  userResponseSchema,
+} from '@/lib/schemas';
+import { getStoredToken } from '@/lib/token-store';
+
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || 'https://reqres.in/api').replace(/\/+$/, '');
+
+// Query param the backend filters users by; when unset, search falls back to
+// fetching and filtering every page client-side
+export const API_SEARCH_PARAM = import.meta.env.VITE_API_SEARCH_PARAM || '';
+
+// Endpoint that trades a still-valid token for a fresh one; without it,
+// sessions end when the token's known expiry passes
+export const API_REFRESH_PATH = import.meta.env.VITE_API_REFRESH_PATH || '';
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Called whenever a request made with a token comes back 401
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// The response parsed fine but does not have the shape we expect
+export class ApiSchemaError extends ApiError {
+  issues: z.ZodIssue[];
+
+  constructor(path: string, status: number, data: unknown, issues: z.ZodIssue[]) {
+    super(`Unexpected response from ${path}`, status, data);
+    this.name = 'ApiSchemaError';
+    this.issues = issues;
+  }
+}
+
+// Field-level messages from a validation failure, accepting both
+// { errors: { email: '...' } } and { errors: [{ field: 'email', message: '...' }] }
+export const getFieldErrors = (error: unknown): Record<string, string> => {
+  if (!(error instanceof ApiError) || !error.data || typeof error.data !== 'object') return {};
+  const { errors } = error.data as { errors?: unknown };
+
+  if (Array.isArray(errors)) {
+    return errors.reduce<Record<string, string>>((fields, item) => {
+      const field = item?.field ?? item?.path;
+      if (typeof field === 'string' && typeof item.message === 'string') {
+        fields[field] = item.message;
+      }
+      return fields;
+    }, {});
+  }
+
+  if (errors && typeof errors === 'object') {
+    return Object.fromEntries(
+      Object.entries(errors)
+        .map(([field, message]) => [field, Array.isArray(message) ? message[0] : message])
+        .filter(([, message]) => typeof message === 'string')
+    );
+  }
+
+  return {};
+};
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  params?: Record<string, string | number | undefined>;
+  keepalive?: boolean;
+  // Validates the response body; the request fails with ApiSchemaError on mismatch
+  schema?: z.ZodTypeAny;
+}
+
+const buildUrl = (path: string, params?: RequestOptions['params']) => {
+  // The origin only matters for a relative base URL, e.g. /api behind a proxy
+  const url = new URL(`${API_BASE_URL}${path}`, window.location.origin);
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+  }
+  return url.toString();
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const request = async <T>(
+  path: string,
+  { method = 'GET', body, params, keepalive, schema }: RequestOptions = {}
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  const token = getStoredToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path, params), {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      keepalive,
+    });
+  } catch (error) {
+    throw new ApiError(error instanceof Error ? error.message : 'Network error', 0);
+  }
+
+  const data = await parseBody(response);
+
+  if (!response.ok) {
+    if (response.status === 401 && token) {
+      unauthorizedHandler?.();
+    }
+    const message =
+      data && typeof data === 'object' && 'error' in data && typeof data.error === 'string'
+        ? data.error
+        : `Request failed with status ${response.status}`;
+    throw new ApiError(message, response.status, data);
+  }
+
+  if (!schema) {
+    return data as T;
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`Schema mismatch in ${method} ${path}:`, result.error.issues, data);
+    throw new ApiSchemaError(path, response.status, data, result.error.issues);
+  }
+  return result.data as T;
+};
+
+export const api = {
+  login: (email: string, password: string) =>
+    request<LoginResponse>('/login', { method: 'POST', body: { email, password }, schema: loginResponseSchema }),
+
+  register: (email: string, password: string) =>
+    request<RegisterResponse>('/register', { method: 'POST', body: { email, password }, schema: registerResponseSchema }),
+
+  refreshToken: () =>
+    request<RefreshTokenResponse>(API_REFRESH_PATH, { method: 'POST', schema: refreshTokenResponseSchema }),
+
+  getUsers: (page: number, search?: string) =>
+    request<UserResponse>('/users', {
+      schema: userResponseSchema,
+      params: { page, ...(API_SEARCH_PARAM && search ? { [API_SEARCH_PARAM]: search } : {}) },
+    }),
+
+  // Fetches every page (of search results, when given) and merges them into a single response
+  getAllUsers: async (search?: string): Promise<UserResponse> => {
+    const first = await api.getUsers(1, search);
+    const rest = await Promise.all(
+      Array.from({ length: Math.max(first.total_pages - 1, 0) }, (_, i) => api.getUsers(i + 2, search))
+    );
+    const data = [first, ...rest].flatMap((response) => response.data);
+    return { ...first, total: data.length, total_pages: 1, data };
+  },
+
+  getUser: (id: number) =>
+    request<SingleUserResponse>(`/users/${id}`, { schema: singleUserResponseSchema }),
+
+  createUser: (userData: UpdateUserData) =>
+    request<CreateUserResponse>('/users', { method: 'POST', body: userData, schema: createUserResponseSchema }),
+
+  updateUser: (id: number, userData: UpdateUserData) =>
+    request<UpdateUserData & { updatedAt: string }>(`/users/${id}`, { method: 'PUT', body: userData, schema: updateUserResponseSchema }),
+
+  // Changes only the fields sent, leaving the rest of the user as it is
+  patchUser: (id: number, userData: UpdateUserData) =>
+    request<UpdateUserData & { updatedAt: string }>(`/users/${id}`, { method: 'PATCH', body: userData, schema: updateUserResponseSchema }),
+
+  // keepalive lets deletes flushed on page unload complete
+  deleteUser: (id: number) =>
+    request<unknown>(`/users/${id}`, { method: 'DELETE', keepalive: true, schema: emptyResponseSchema }),
+};
@@ -0,0 +1,40 @@
+export interface BatchResult<T> {
+  item: T;
+  ok: boolean;
+  error?: string;
+}
+
+interface BatchOptions {
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Runs `task` for every item with limited concurrency. Failures are collected
+// per item instead of aborting the batch.
+export const runBatch = async <T>(
+  items: T[],
+  task: (item: T) => Promise<unknown>,
+  { concurrency = 3, onProgress }: BatchOptions = {}
+): Promise<BatchResult<T>[]> => {
+  const results: BatchResult<T>[] = new Array(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        await task(item);
+        results[index] = { item, ok: true };
+      } catch (error) {
+        results[index] = { item, ok: false, error: error instanceof Error ? error.message : 'An unknown error occurred' };
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,67 @@
+import { User } from '@/types';
+import { toCsv } from '@/lib/csv';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const USER_EXPORT_COLUMNS: { key: keyof User; label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'job', label: 'Job title' },
+  { key: 'department', label: 'Department' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'location', label: 'Location' },
+  { key: 'start_date', label: 'Start date' },
+  { key: 'avatar', label: 'Avatar' },
+];
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Keeps only the chosen columns, keyed by their labels
+const toRecords = (users: User[], columns: typeof USER_EXPORT_COLUMNS) =>
+  users.map((user) =>
+    Object.fromEntries(columns.map((column) => [column.label, user[column.key] ?? '']))
+  );
+
+export const exportUsers = async (
+  users: User[],
+  { format, columns = USER_EXPORT_COLUMNS, filename = 'users' }: {
+    format: ExportFormat;
+    columns?: typeof USER_EXPORT_COLUMNS;
+    filename?: string;
+  }
+) => {
+  const records = toRecords(users, columns);
+  const labels = columns.map((column) => ({ key: column.label, label: column.label }));
+
+  switch (format) {
+    case 'csv':
+      downloadFile(toCsv(records, labels), `${filename}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(JSON.stringify(records, null, 2), `${filename}.json`, 'application/json');
+      break;
+    case 'xlsx': {
+      // Loaded on demand, the library is large
+      const { default: ExcelJS } = await import('exceljs');
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Users');
+      sheet.columns = labels.map(({ key, label }) => ({ header: label, key }));
+      sheet.addRows(records);
+      downloadFile(
+        await workbook.xlsx.writeBuffer(),
+        `${filename}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      break;
+    }
+  }
+};
@@ -0,0 +1,73 @@
+export const AVATAR_ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const AVATAR_MAX_BYTES = 5 * 1024 * 1024;
+// Width and height of the uploaded avatar
+export const AVATAR_OUTPUT_SIZE = 256;
+
+// Centre of the square in image pixels, and how far it is zoomed in
+export interface SquareCrop {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+}
+
+export const validateImageFile = (file: File): string | null => {
+  if (!AVATAR_ACCEPTED_TYPES.includes(file.type)) {
+    return 'Choose a JPEG, PNG, WebP or GIF image';
+  }
+  if (file.size > AVATAR_MAX_BYTES) {
+    return `Images must be smaller than ${AVATAR_MAX_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+export const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be read'));
+    };
+    image.src = url;
+  });
+
+export const centeredCrop = (image: HTMLImageElement): SquareCrop => ({
+  centerX: image.naturalWidth / 2,
+  centerY: image.naturalHeight / 2,
+  zoom: 1,
+});
+
+// Source square of the crop, moved back inside the image when it overflows
+export const getCropRect = (image: HTMLImageElement, { centerX, centerY, zoom }: SquareCrop) => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const side = Math.min(width, height) / zoom;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  return {
+    x: clamp(centerX - side / 2, width - side),
+    y: clamp(centerY - side / 2, height - side),
+    side,
+  };
+};
+
+// Moves the centre so the square never leaves the image
+export const clampCrop = (image: HTMLImageElement, crop: SquareCrop): SquareCrop => {
+  const { x, y, side } = getCropRect(image, crop);
+  return { ...crop, centerX: x + side / 2, centerY: y + side / 2 };
+};
+
+export const drawCrop = (canvas: HTMLCanvasElement, image: HTMLImageElement, crop: SquareCrop) => {
+  const { x, y, side } = getCropRect(image, crop);
+  canvas.width = AVATAR_OUTPUT_SIZE;
+  canvas.height = AVATAR_OUTPUT_SIZE;
+  const context = canvas.getContext('2d');
+  // JPEG has no transparency, so give transparent PNGs a white background
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, AVATAR_OUTPUT_SIZE, AVATAR_OUTPUT_SIZE);
+  context.drawImage(image, x, y, side, side, 0, 0, AVATAR_OUTPUT_SIZE, AVATAR_OUTPUT_SIZE);
+};
+
+export const toAvatarDataUrl = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', 0.9);
@@ -0,0 +1,101 @@
+import { userFormSchema } from '@/lib/user-form';
+import { UpdateUserData } from '@/types';
+
+export type ImportField =
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'job'
+  | 'department'
+  | 'phone'
+  | 'location'
+  | 'start_date';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: 'first_name', label: 'First name', required: true, aliases: ['first name', 'firstname', 'given name', 'first'] },
+  { key: 'last_name', label: 'Last name', required: true, aliases: ['last name', 'lastname', 'surname', 'family name', 'last'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email address', 'e-mail', 'mail'] },
+  { key: 'job', label: 'Job title', required: false, aliases: ['job title', 'title', 'position'] },
+  { key: 'department', label: 'Department', required: false, aliases: ['dept', 'team'] },
+  { key: 'phone', label: 'Phone', required: false, aliases: ['phone number', 'telephone', 'mobile'] },
+  { key: 'location', label: 'Location', required: false, aliases: ['city', 'office'] },
+  { key: 'start_date', label: 'Start date', required: false, aliases: ['start', 'hire date', 'joined'] },
+];
+
+// Index of the CSV column each field is read from, or null when unmapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportRow {
+  rowNumber: number;
+  data: UpdateUserData;
+  errors: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Dates as the API stores them (YYYY-MM-DD); values that don't parse are left
+// for validation to report
+const toIsoDate = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+// Guesses the mapping from header names, e.g. "First Name" or "first_name"
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const candidates = [normalizeHeader(field.key), normalizeHeader(field.label), ...field.aliases];
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    return { ...mapping, [field.key]: index === -1 ? null : index };
+  }, {} as ColumnMapping);
+};
+
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingEmails: Set<string>
+): ImportRow[] => {
+  const seenEmails = new Set<string>();
+
+  return rows.map((cells, i) => {
+    const data: UpdateUserData = {};
+    const errors: string[] = [];
+
+    IMPORT_FIELDS.forEach((field) => {
+      const index = mapping[field.key];
+      const value = index === null ? '' : (cells[index] ?? '').trim();
+      if (!value) {
+        if (field.required) errors.push(`${field.label} is required`);
+        return;
+      }
+      data[field.key] = field.key === 'start_date' ? toIsoDate(value) : value;
+      // Same limits as the user forms; email is checked below
+      const result = field.key === 'email' ? null : userFormSchema.shape[field.key].safeParse(value);
+      if (result && !result.success) errors.push(result.error.issues[0].message);
+    });
+
+    const email = data.email?.toLowerCase();
+    if (email) {
+      if (!EMAIL_PATTERN.test(email)) {
+        errors.push('Email is not valid');
+      } else if (existingEmails.has(email)) {
+        errors.push('A user with this email already exists');
+      } else if (seenEmails.has(email)) {
+        errors.push('Email is duplicated in this file');
+      }
+      seenEmails.add(email);
+    }
+
+    if (data.first_name || data.last_name) {
+      data.name = `${data.first_name ?? ''} ${data.last_name ?? ''}`.trim();
+    }
+
+    // Row 1 is the header
+    return { rowNumber: i + 2, data, errors };
+  });
+};
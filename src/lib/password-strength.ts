@@ -0,0 +1,22 @@
+export const PASSWORD_MIN_LENGTH = 8;
+
+export interface PasswordStrength {
+  // 0 (empty or too short) to 4
+  score: number;
+  label: string;
+}
+
+const LABELS = ['Too short', 'Weak', 'Fair', 'Good', 'Strong'];
+
+// Rough estimate from length and character variety, enough to nudge users
+// away from obvious passwords
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return { score: 0, label: password ? LABELS[0] : '' };
+  }
+
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  const lengthBonus = password.length >= 12 ? 1 : 0;
+  const score = Math.min(Math.max(variety - 1 + lengthBonus, 1), 4);
+  return { score, label: LABELS[score] };
+};
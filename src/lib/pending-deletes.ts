@@ -0,0 +1,68 @@
+export const UNDO_DELETE_WINDOW_MS = Number(import.meta.env.VITE_UNDO_DELETE_WINDOW_MS) || 5000;
+
+interface PendingDelete {
+  timer: ReturnType<typeof setTimeout>;
+  commit: () => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+// Deletes waiting out their undo window, keyed by user id
+const pendingDeletes = new Map<number, PendingDelete>();
+
+// onCancel runs if the delete is cancelled instead of sent, e.g. by an undo
+export const schedulePendingDelete = (
+  id: number,
+  commit: () => Promise<unknown>,
+  { delayMs = UNDO_DELETE_WINDOW_MS, onCancel }: { delayMs?: number; onCancel?: () => void } = {}
+) => {
+  cancelPendingDelete(id);
+  const timer = setTimeout(() => {
+    pendingDeletes.delete(id);
+    commit();
+  }, delayMs);
+  pendingDeletes.set(id, { timer, commit, onCancel });
+};
+
+export const isDeletePending = (id: number) => pendingDeletes.has(id);
+
+// Returns false when the delete was already sent
+export const cancelPendingDelete = (id: number) => {
+  const pending = pendingDeletes.get(id);
+  if (!pending) return false;
+  clearTimeout(pending.timer);
+  pendingDeletes.delete(id);
+  pending.onCancel?.();
+  return true;
+};
+
+// Sends one pending delete right away; returns false when it was already sent
+export const flushPendingDelete = (id: number) => {
+  const pending = pendingDeletes.get(id);
+  if (!pending) return false;
+  clearTimeout(pending.timer);
+  pendingDeletes.delete(id);
+  pending.commit();
+  return true;
+};
+
+// Sends every pending delete right away, e.g. before logout or page unload.
+// Resolves once they have all settled, so the session can be kept until then,
+// or after timeoutMs at the latest; slower deletes finish in the background.
+export const flushPendingDeletes = async (timeoutMs?: number) => {
+  const entries = Array.from(pendingDeletes.values());
+  pendingDeletes.clear();
+  if (entries.length === 0) return;
+  const settled = Promise.allSettled(
+    entries.map(({ timer, commit }) => {
+      clearTimeout(timer);
+      return commit();
+    })
+  );
+  await (timeoutMs === undefined
+    ? settled
+    : Promise.race([settled, new Promise((resolve) => setTimeout(resolve, timeoutMs))]));
+};
+
+window.addEventListener('pagehide', () => {
+  flushPendingDeletes();
+});
@@ -0,0 +1,22 @@
+import { Permission, Role } from '@/types';
+
+export const ROLES: Role[] = ['admin', 'manager', 'viewer'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['users:create', 'users:edit', 'users:delete', 'users:import', 'users:export'],
+  manager: ['users:create', 'users:edit', 'users:import', 'users:export'],
+  viewer: ['users:export'],
+};
+
+// Fallback whenever a role is missing or unrecognised, so access fails closed
+export const LEAST_PRIVILEGED_ROLE: Role = 'viewer';
+
+// Role for sign-ins whose response carries none. Set VITE_DEFAULT_ROLE=admin
+// to keep full access against a backend without roles, such as reqres.
+export const DEFAULT_ROLE: Role = ROLES.includes(import.meta.env.VITE_DEFAULT_ROLE as Role)
+  ? (import.meta.env.VITE_DEFAULT_ROLE as Role)
+  : LEAST_PRIVILEGED_ROLE;
+
+// Only decides what the UI offers; the API must enforce the same rules
+export const hasPermissions = (role: Role | null, required: Permission[]) =>
+  !!role && required.every((permission) => ROLE_PERMISSIONS[role].includes(permission));
@@ -0,0 +1,25 @@
+export const DEFAULT_RETURN_TO = '/users';
+
+// Pages a successful sign-in should never bounce back to
+const AUTH_PATHS = ['/login', '/register'];
+
+// Accepts only paths on this origin, so a crafted ?returnTo= link can't send
+// users to another site after they sign in
+export const getSafeReturnTo = (value: string | null | undefined) => {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return DEFAULT_RETURN_TO;
+  }
+  try {
+    const url = new URL(value, window.location.origin);
+    if (url.origin !== window.location.origin || AUTH_PATHS.includes(url.pathname)) {
+      return DEFAULT_RETURN_TO;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return DEFAULT_RETURN_TO;
+  }
+};
+
+// Login URL that brings the user back to `location` afterwards
+export const getLoginPath = ({ pathname, search, hash }: { pathname: string; search: string; hash: string }) =>
+  `/login?returnTo=${encodeURIComponent(`${pathname}${search}${hash}`)}`;
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// Runtime shapes of every API response, checked in `request` before the data
+// reaches any component. They mirror the interfaces in '@/types'.
+
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  avatar: z.string(),
+  job: z.string().optional(),
+  department: z.string().optional(),
+  phone: z.string().optional(),
+  location: z.string().optional(),
+  start_date: z.string().optional(),
+});
+
+export const userResponseSchema = z.object({
+  page: z.number(),
+  per_page: z.number(),
+  total: z.number(),
+  total_pages: z.number(),
+  data: z.array(userSchema),
+});
+
+export const singleUserResponseSchema = z.object({
+  data: userSchema,
+});
+
+export const loginResponseSchema = z.object({
+  token: z.string().min(1),
+  role: z.enum(['admin', 'manager', 'viewer']).optional(),
+});
+
+export const refreshTokenResponseSchema = z.object({
+  token: z.string().min(1),
+  expires_in: z.number().optional(),
+});
+
+export const registerResponseSchema = loginResponseSchema.extend({
+  id: z.number(),
+});
+
+const userDataSchema = z.object({
+  name: z.string().optional(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  email: z.string().optional(),
+  avatar: z.string().optional(),
+  job: z.string().optional(),
+  department: z.string().optional(),
+  phone: z.string().optional(),
+  location: z.string().optional(),
+  start_date: z.string().optional(),
+});
+
+export const createUserResponseSchema = userDataSchema.extend({
+  id: z.union([z.string(), z.number()]).transform(String),
+  createdAt: z.string(),
+});
+
+export const updateUserResponseSchema = userDataSchema.extend({
+  updatedAt: z.string(),
+});
+
+// Mutations whose body is never read: 204 with nothing, or 200 with any JSON
+export const emptyResponseSchema = z.unknown();
@@ -0,0 +1,29 @@
+import { TokenTiming } from '@/lib/session';
+import { TokenPersistence } from '@/lib/token-store';
+import { Role } from '@/types';
+
+// Messages other open tabs of the dashboard act on
+export type SessionMessage =
+  | { type: 'login'; token: string; email: string; role: Role; timing: TokenTiming; persistence: TokenPersistence }
+  | { type: 'refresh'; token: string; timing: TokenTiming }
+  | { type: 'logout' }
+  // The user is active in another tab, so this one isn't idle either
+  | { type: 'activity' };
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('session') : null;
+
+// Delivered to every other tab, never back to the sender
+export const broadcastSession = (message: SessionMessage) => {
+  channel?.postMessage(message);
+};
+
+export const subscribeToSession = (listener: (message: SessionMessage) => void) => {
+  const handleMessage = (event: MessageEvent<SessionMessage>) => listener(event.data);
+  channel?.addEventListener('message', handleMessage);
+  return () => channel?.removeEventListener('message', handleMessage);
+};
+
+// Runs callback in one tab at a time, so open tabs don't all refresh the same
+// token at once. Browsers without the Web Locks API just run it.
+export const withRefreshLock = <T>(callback: () => Promise<T>): Promise<T> =>
+  navigator.locks ? navigator.locks.request('token-refresh', callback) : callback();
@@ -0,0 +1,41 @@
+// Refresh this long before the token expires
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface TokenTiming {
+  issuedAt: number;
+  // null when the backend doesn't say, e.g. reqres' opaque tokens; those
+  // sessions end on a 401 or the idle timeout instead
+  expiresAt: number | null;
+}
+
+// `iat`/`exp` claims (in seconds) when the token is a JWT
+const decodeJwtClaims = (token: string): { iat?: number; exp?: number } | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+};
+
+// Prefers the server's expires_in, then the JWT's own claims
+export const getTokenTiming = (token: string, expiresInSeconds?: number): TokenTiming => {
+  const now = Date.now();
+  if (expiresInSeconds) {
+    return { issuedAt: now, expiresAt: now + expiresInSeconds * 1000 };
+  }
+  const claims = decodeJwtClaims(token);
+  if (typeof claims?.exp === 'number') {
+    return { issuedAt: typeof claims.iat === 'number' ? claims.iat * 1000 : now, expiresAt: claims.exp * 1000 };
+  }
+  return { issuedAt: now, expiresAt: null };
+};
+
+// setTimeout overflows past ~24.8 days and would fire immediately
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Inactive sessions end after this long; the warning dialog counts down the
+// last IDLE_WARNING_MS of it
+export const IDLE_TIMEOUT_MS = (Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15) * 60 * 1000;
+export const IDLE_WARNING_MS = 60 * 1000;
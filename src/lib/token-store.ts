@@ -0,0 +1,115 @@
+import { LEAST_PRIVILEGED_ROLE, ROLES } from '@/lib/permissions';
+import { getTokenTiming, TokenTiming } from '@/lib/session';
+import { Role } from '@/types';
+
+export interface StoredSession {
+  token: string;
+  email: string;
+  role: Role;
+  timing: TokenTiming;
+}
+
+// Where a signed-in session is kept. Implementations can be swapped with
+// configureTokenStores, e.g. for one backed by httpOnly cookies.
+export interface TokenStore {
+  load: () => StoredSession | null;
+  save: (session: StoredSession) => void;
+  clear: () => void;
+}
+
+// remembered survives browser restarts, session ends with the tab
+export type TokenPersistence = 'remembered' | 'session';
+
+const TOKEN_KEY = 'token';
+const EMAIL_KEY = 'email';
+const ROLE_KEY = 'role';
+const ISSUED_AT_KEY = 'token_issued_at';
+const EXPIRES_AT_KEY = 'token_expires_at';
+
+export const createWebStorageTokenStore = (storage: Storage): TokenStore => {
+  const save = ({ token, email, role, timing }: StoredSession) => {
+    storage.setItem(TOKEN_KEY, token);
+    storage.setItem(EMAIL_KEY, email);
+    storage.setItem(ROLE_KEY, role);
+    storage.setItem(ISSUED_AT_KEY, String(timing.issuedAt));
+    if (timing.expiresAt === null) {
+      storage.removeItem(EXPIRES_AT_KEY);
+    } else {
+      storage.setItem(EXPIRES_AT_KEY, String(timing.expiresAt));
+    }
+  };
+
+  return {
+    load: () => {
+      const token = storage.getItem(TOKEN_KEY);
+      if (!token) return null;
+      const email = storage.getItem(EMAIL_KEY);
+      const storedRole = storage.getItem(ROLE_KEY) as Role;
+      const role = ROLES.includes(storedRole) ? storedRole : LEAST_PRIVILEGED_ROLE;
+      const issuedAt = Number(storage.getItem(ISSUED_AT_KEY));
+      if (issuedAt) {
+        return { token, email, role, timing: { issuedAt, expiresAt: Number(storage.getItem(EXPIRES_AT_KEY)) || null } };
+      }
+      // Sessions saved before timing was tracked
+      const session = { token, email, role, timing: getTokenTiming(token) };
+      save(session);
+      return session;
+    },
+    save,
+    clear: () => {
+      [TOKEN_KEY, EMAIL_KEY, ROLE_KEY, ISSUED_AT_KEY, EXPIRES_AT_KEY].forEach((key) => storage.removeItem(key));
+    },
+  };
+};
+
+export const createMemoryTokenStore = (): TokenStore => {
+  let stored: StoredSession | null = null;
+  return {
+    load: () => stored,
+    save: (session) => {
+      stored = session;
+    },
+    clear: () => {
+      stored = null;
+    },
+  };
+};
+
+// sessionStorage can be unavailable (e.g. blocked storage); memory is the
+// next best thing for a session that shouldn't outlive the tab
+const createSessionTokenStore = () => {
+  try {
+    return createWebStorageTokenStore(window.sessionStorage);
+  } catch {
+    return createMemoryTokenStore();
+  }
+};
+
+const stores: Record<TokenPersistence, TokenStore> = {
+  remembered: createWebStorageTokenStore(window.localStorage),
+  session: createSessionTokenStore(),
+};
+
+export const configureTokenStores = (custom: Partial<Record<TokenPersistence, TokenStore>>) => {
+  Object.assign(stores, custom);
+};
+
+// A tab-only session wins over a remembered one from an earlier sign-in
+export const loadSession = (): { session: StoredSession; persistence: TokenPersistence } | null => {
+  const sessionOnly = stores.session.load();
+  if (sessionOnly) return { session: sessionOnly, persistence: 'session' };
+  const remembered = stores.remembered.load();
+  return remembered ? { session: remembered, persistence: 'remembered' } : null;
+};
+
+export const saveSession = (session: StoredSession, persistence: TokenPersistence) => {
+  stores[persistence === 'session' ? 'remembered' : 'session'].clear();
+  stores[persistence].save(session);
+};
+
+export const clearSession = () => {
+  stores.remembered.clear();
+  stores.session.clear();
+};
+
+export const getStoredToken = () => loadSession()?.session.token ?? null;
@@ -0,0 +1,69 @@
+import { UseFormReturn } from 'react-hook-form';
+import { z } from 'zod';
+import { getFieldErrors } from '@/lib/api';
+import { User } from '@/types';
+
+const NAME_MAX_LENGTH = 50;
+const EMAIL_MAX_LENGTH = 254;
+const PROFILE_MAX_LENGTH = 100;
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+
+const nameField = (label: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} is required`)
+    .max(NAME_MAX_LENGTH, `${label} must be at most ${NAME_MAX_LENGTH} characters`);
+
+// Optional profile text; an empty value clears it
+const profileField = (label: string) =>
+  z.string().trim().max(PROFILE_MAX_LENGTH, `${label} must be at most ${PROFILE_MAX_LENGTH} characters`);
+
+// Shared by the create and edit user forms
+export const userFormSchema = z.object({
+  first_name: nameField('First name'),
+  last_name: nameField('Last name'),
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email is required')
+    .max(EMAIL_MAX_LENGTH, `Email must be at most ${EMAIL_MAX_LENGTH} characters`)
+    .email('Enter a valid email address'),
+  // An image URL, or a data URL once a new picture is uploaded
+  avatar: z.string(),
+  job: profileField('Job title'),
+  department: profileField('Department'),
+  phone: z
+    .string()
+    .trim()
+    .refine((value) => value === '' || PHONE_PATTERN.test(value), 'Enter a valid phone number'),
+  location: profileField('Location'),
+  start_date: z
+    .string()
+    .refine((value) => value === '' || !isNaN(Date.parse(value)), 'Enter a valid date'),
+});
+
+export type UserFormValues = z.infer<typeof userFormSchema>;
+
+// Blank values for a new user, or the given user's current details
+export const toUserFormValues = (user: User | null): UserFormValues => ({
+  first_name: user?.first_name ?? '',
+  last_name: user?.last_name ?? '',
+  email: user?.email ?? '',
+  avatar: user?.avatar ?? '',
+  job: user?.job ?? '',
+  department: user?.department ?? '',
+  phone: user?.phone ?? '',
+  location: user?.location ?? '',
+  start_date: user?.start_date ?? '',
+});
+
+// Shows validation failures reported by the server next to their fields.
+// Returns false when the error carried none the form knows about.
+export const applyServerFieldErrors = (form: UseFormReturn<UserFormValues>, error: unknown) => {
+  const fieldErrors = Object.entries(getFieldErrors(error)).filter(([field]) => field in userFormSchema.shape);
+  fieldErrors.forEach(([field, message], i) => {
+    form.setError(field as keyof UserFormValues, { type: 'server', message }, { shouldFocus: i === 0 });
+  });
+  return fieldErrors.length > 0;
+};
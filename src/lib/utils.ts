@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Formats a date-only ISO string (2024-03-18) in the user's locale, without
+// the timezone shift `new Date("2024-03-18")` would apply
+export function formatDate(date: string) {
+  const [year, month, day] = date.split("-").map(Number)
+  const parsed = new Date(year, month - 1, day)
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString()
+}
@@ -1,20 +1,25 @@
 
 import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Lock, Mail, UserCircle } from 'lucide-react';
 
 const LoginPage = () => {
   const [email, setEmail] = useState('eve.holt@reqres.in');
   const [password, setPassword] = useState('cityslicka');
+  const [rememberMe, setRememberMe] = useState(true);
   const { login, loading } = useAuth();
+  // Carries ?returnTo= over to the register page
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await login(email, password);
+    await login(email, password, rememberMe);
   };
 
   return (
@@ -66,8 +71,19 @@ const LoginPage = () => {
                   />
                 </div>
               </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="remember-me"
+                  checked={rememberMe}
+                  onCheckedChange={(checked) => setRememberMe(checked === true)}
+                />
+                <Label htmlFor="remember-me" className="text-sm font-normal">Remember me</Label>
+              </div>
+              {!rememberMe && (
+                <p className="text-xs text-muted-foreground">You'll be signed out when you close this tab.</p>
+              )}
             </CardContent>
-            <CardFooter>
+            <CardFooter className="flex flex-col gap-4">
               <Button 
                 type="submit" 
                 className="w-full btn-glow" 
@@ -85,6 +101,10 @@ const LoginPage = () => {
                   'Sign in'
                 )}
               </Button>
+              <p className="text-sm text-muted-foreground">
+                Don't have an account?{' '}
+                <Link to={`/register${location.search}`} className="font-medium text-primary hover:underline">Create one</Link>
+              </p>
             </CardFooter>
           </form>
         </Card>
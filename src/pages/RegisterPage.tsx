@@ -0,0 +1,169 @@
+
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { getPasswordStrength, PASSWORD_MIN_LENGTH } from '@/lib/password-strength';
+import { Lock, Mail, UserPlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const registerSchema = z
+  .object({
+    email: z.string().trim().min(1, 'Email is required').email('Enter a valid email address'),
+    password: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+    confirmPassword: z.string().min(1, 'Confirm your password'),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type RegisterValues = z.infer<typeof registerSchema>;
+
+const STRENGTH_COLORS = ['bg-destructive', 'bg-destructive', 'bg-amber-500', 'bg-lime-500', 'bg-green-600'];
+
+const PasswordStrengthMeter = ({ password }: { password: string }) => {
+  const { score, label } = getPasswordStrength(password);
+  if (!password) return null;
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((step) => (
+          <div
+            key={step}
+            className={cn('h-1.5 flex-1 rounded-full bg-muted transition-colors', step <= score && STRENGTH_COLORS[score])}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Password strength: {label}</p>
+    </div>
+  );
+};
+
+const RegisterPage = () => {
+  const { register, loading } = useAuth();
+  const location = useLocation();
+  const form = useForm<RegisterValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { email: '', password: '', confirmPassword: '' },
+  });
+
+  const handleSubmit = async (values: RegisterValues) => {
+    await register(values.email, values.password);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-10 animate-fade-in">
+          <div className="mb-3">
+            <UserPlus className="h-12 w-12 mx-auto text-primary animate-float" />
+          </div>
+          <h1 className="text-4xl font-bold mb-2 gradient-heading">EmployWise</h1>
+          <p className="text-muted-foreground">User Management Dashboard</p>
+        </div>
+
+        <Card className="glass-card animate-scale-in">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold">Create an account</CardTitle>
+            <CardDescription>
+              Sign up to start managing your team
+            </CardDescription>
+          </CardHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} noValidate>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input {...field} type="email" placeholder="example@company.com" autoComplete="email" className="pl-10" />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input {...field} type="password" autoComplete="new-password" className="pl-10" />
+                        </FormControl>
+                      </div>
+                      <PasswordStrengthMeter password={field.value} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input {...field} type="password" autoComplete="new-password" className="pl-10" />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              <CardFooter className="flex flex-col gap-4">
+                <Button
+                  type="submit"
+                  className="w-full btn-glow"
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <span className="flex items-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Creating account...
+                    </span>
+                  ) : (
+                    'Create account'
+                  )}
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Already have an account?{' '}
+                  <Link to={`/login${location.search}`} className="font-medium text-primary hover:underline">Sign in</Link>
+                </p>
+              </CardFooter>
+            </form>
+          </Form>
+        </Card>
+
+        <div className="mt-6 text-center text-sm text-muted-foreground animate-fade-in">
+          <p className="mb-1">The demo API only registers its predefined users</p>
+          <p className="font-mono bg-muted p-2 rounded text-xs">Email: eve.holt@reqres.in | Any password of 8+ characters</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegisterPage;
@@ -0,0 +1,184 @@
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useTrash, TRASH_RETENTION_DAYS } from '@/contexts/TrashContext';
+import { useRestoreUser, usePurgeUser } from '@/hooks/use-users';
+import { TrashEntry } from '@/types';
+import { toast } from 'sonner';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+
+const TrashPage: React.FC = () => {
+  const { entries } = useTrash();
+  const restoreUser = useRestoreUser();
+  const purgeUser = usePurgeUser();
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false);
+
+  const handleRestore = async ({ user }: TrashEntry) => {
+    setRestoringId(user.id);
+    try {
+      await restoreUser(user);
+      toast.success(`${user.first_name} ${user.last_name} restored`);
+    } catch (error) {
+      console.error('Error restoring user:', error);
+      toast.error('Failed to restore user', {
+        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handlePurge = ({ user }: TrashEntry) => {
+    const name = `${user.first_name} ${user.last_name}`;
+    toast.success(purgeUser(user.id) ? `${name} permanently deleted` : `${name} removed from the trash`);
+  };
+
+  const handleEmptyTrash = () => {
+    entries.forEach(({ user }) => purgeUser(user.id));
+    setIsEmptyDialogOpen(false);
+    toast.success('Trash emptied');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="page-container pt-8">
+        <Button asChild variant="ghost" size="sm" className="mb-6">
+          <Link to="/users" className="flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" />
+            Back to users
+          </Link>
+        </Button>
+
+        <div className="mb-10 flex flex-col sm:flex-row sm:items-end justify-between gap-4 animate-fade-in">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <Trash2 className="h-6 w-6 text-primary" />
+              <h1 className="text-3xl font-bold gradient-heading">Trash</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Deleted users are kept for {TRASH_RETENTION_DAYS} days before the trash is emptied automatically
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Once the undo window has passed the user is already deleted on the server: restoring re-creates them
+              as a new record with a new ID, and purging only removes the copy kept here.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsEmptyDialogOpen(true)}
+            disabled={entries.length === 0}
+            className="text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
+          >
+            Empty trash
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-16 bg-card/30 backdrop-blur-sm rounded-lg border border-border/40 animate-fade-in">
+            <Trash2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-lg font-medium mb-1">Trash is empty</p>
+            <p className="text-muted-foreground">Users you delete will show up here</p>
+          </div>
+        ) : (
+          <div className="bg-card/30 backdrop-blur-sm border border-border/40 rounded-lg animate-fade-in">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Deleted by</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.user.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={entry.user.avatar} alt={`${entry.user.first_name} ${entry.user.last_name}`} />
+                          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                            {`${entry.user.first_name.charAt(0)}${entry.user.last_name.charAt(0)}`}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium">{`${entry.user.first_name} ${entry.user.last_name}`}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.user.email}</TableCell>
+                    <TableCell className="text-muted-foreground">{new Date(entry.deletedAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.deletedBy}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(entry)}
+                          disabled={restoringId === entry.user.id}
+                          className="flex items-center gap-1 hover:bg-primary/10 hover:text-primary"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePurge(entry)}
+                          disabled={restoringId === entry.user.id}
+                          className="flex items-center gap-1 text-destructive hover:text-destructive-foreground hover:bg-destructive hover:border-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Purge
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent className="bg-card/95 backdrop-blur-lg border border-border/40">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {entries.length} users will be removed from the trash, and any still in their undo window
+              will be deleted on the server. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmptyTrash}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Empty trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashPage;
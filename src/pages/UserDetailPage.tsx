@@ -0,0 +1,181 @@
+
+import React, { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import SchemaErrorState from '@/components/SchemaErrorState';
+import { useActivity } from '@/contexts/ActivityContext';
+import { ApiError, ApiSchemaError } from '@/lib/api';
+import { USER_EXPORT_COLUMNS } from '@/lib/export';
+import { formatDate } from '@/lib/utils';
+import { useUser } from '@/hooks/use-users';
+import { ActivityEntry } from '@/types';
+import { toast } from 'sonner';
+import { ArrowLeft, Mail, Briefcase, Activity, User as UserIcon, UserX, MapPin, Phone, CalendarDays } from 'lucide-react';
+
+const ACTIVITY_LABELS: Record<ActivityEntry['type'], string> = {
+  created: 'Created',
+  updated: 'Updated',
+  deleted: 'Deleted',
+  restored: 'Restored from the trash',
+};
+
+const describeActivity = ({ type, fields }: ActivityEntry) => {
+  if (type !== 'updated' || !fields?.length) return ACTIVITY_LABELS[type];
+  const labels = fields.map((field) => (USER_EXPORT_COLUMNS.find((column) => column.key === field)?.label ?? field).toLowerCase());
+  return `${ACTIVITY_LABELS[type]} ${labels.join(', ')}`;
+};
+
+const UserDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const userId = Number(id);
+  const { data, isPending, isError, error, refetch } = useUser(userId);
+  const { entries: activityEntries } = useActivity();
+  const activity = activityEntries.filter((entry) => entry.userId === userId);
+  const user = data?.data ?? null;
+  const isInvalidId = !Number.isInteger(userId) || userId <= 0;
+  const notFound = isInvalidId || (error instanceof ApiError && error.status === 404);
+  const loading = !isInvalidId && isPending;
+
+  useEffect(() => {
+    if (isError && !notFound) {
+      console.error('Error fetching user:', error);
+      toast.error('Failed to load user', {
+        description: error instanceof Error ? error.message : 'An unknown error occurred'
+      });
+    }
+  }, [isError, notFound, error]);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <Card className="p-8">
+          <div className="flex flex-col sm:flex-row items-center gap-8">
+            <Skeleton className="h-40 w-40 rounded-full" />
+            <div className="flex-1 w-full space-y-3">
+              <Skeleton className="h-8 w-1/2" />
+              <Skeleton className="h-4 w-2/3" />
+              <Skeleton className="h-4 w-1/3" />
+            </div>
+          </div>
+        </Card>
+      );
+    }
+
+    if (error instanceof ApiSchemaError) {
+      return <SchemaErrorState error={error} onRetry={() => refetch()} />;
+    }
+
+    if (notFound || !user) {
+      return (
+        <div className="text-center py-16 bg-card/30 backdrop-blur-sm rounded-lg border border-border/40 animate-fade-in">
+          <UserX className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-lg font-medium mb-1">User not found</p>
+          <p className="text-muted-foreground mb-4">The user you are looking for does not exist or has been removed</p>
+          <Button asChild variant="outline">
+            <Link to="/users">Back to users</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    const fullName = `${user.first_name} ${user.last_name}`;
+
+    return (
+      <div className="grid gap-6 animate-fade-in">
+        <Card className="glass-card p-8">
+          <div className="flex flex-col sm:flex-row items-center gap-8">
+            <Avatar className="h-40 w-40 ring-4 ring-primary/10">
+              <AvatarImage src={user.avatar} alt={fullName} className="object-cover" />
+              <AvatarFallback className="text-4xl bg-primary/10 text-primary">
+                {`${user.first_name.charAt(0)}${user.last_name.charAt(0)}`}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex flex-col gap-3 text-center sm:text-left">
+              <h1 className="text-3xl font-bold gradient-heading">{fullName}</h1>
+              <div className="flex items-center justify-center sm:justify-start text-muted-foreground gap-2">
+                <Mail className="h-4 w-4" />
+                <a href={`mailto:${user.email}`} className="hover:text-primary">{user.email}</a>
+              </div>
+              <div className="flex items-center justify-center sm:justify-start text-muted-foreground gap-2">
+                <Briefcase className="h-4 w-4" />
+                <span>{user.job || 'No job title'}{user.department && ` · ${user.department}`}</span>
+              </div>
+              {user.location && (
+                <div className="flex items-center justify-center sm:justify-start text-muted-foreground gap-2">
+                  <MapPin className="h-4 w-4" />
+                  <span>{user.location}</span>
+                </div>
+              )}
+              {user.phone && (
+                <div className="flex items-center justify-center sm:justify-start text-muted-foreground gap-2">
+                  <Phone className="h-4 w-4" />
+                  <a href={`tel:${user.phone}`} className="hover:text-primary">{user.phone}</a>
+                </div>
+              )}
+              {user.start_date && (
+                <div className="flex items-center justify-center sm:justify-start text-muted-foreground gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  <span>Started {formatDate(user.start_date)}</span>
+                </div>
+              )}
+              <div>
+                <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20 text-xs">
+                  <UserIcon className="h-3 w-3 mr-1" />
+                  User ID: {user.id}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Activity className="h-5 w-5 text-primary" />
+              Activity
+            </CardTitle>
+            <CardDescription>Changes made to this user from this browser</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activity.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No changes recorded yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {activity.map((entry) => (
+                  <li key={`${entry.at}-${entry.type}`} className="flex flex-col sm:flex-row sm:justify-between gap-1 text-sm">
+                    <span className="font-medium">{describeActivity(entry)}</span>
+                    <span className="text-muted-foreground">
+                      {entry.by} · {new Date(entry.at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="page-container pt-8">
+        <Button asChild variant="ghost" size="sm" className="mb-6">
+          <Link to="/users" className="flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" />
+            Back to users
+          </Link>
+        </Button>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default UserDetailPage;
@@ -1,74 +1,123 @@
 
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import Navbar from '@/components/Navbar';
 import UserCard from '@/components/UserCard';
+import UsersTable from '@/components/UsersTable';
 import UserEditModal from '@/components/UserEditModal';
 import UserDeleteDialog from '@/components/UserDeleteDialog';
+import UserCreateModal from '@/components/UserCreateModal';
+import UserImportDialog from '@/components/UserImportDialog';
+import UserExportDialog, { ExportScope } from '@/components/UserExportDialog';
+import SchemaErrorState from '@/components/SchemaErrorState';
+import BulkActionBar, { BulkProgress } from '@/components/BulkActionBar';
+import BulkUpdateDialog from '@/components/BulkUpdateDialog';
+import BulkResultDialog, { BulkSummary } from '@/components/BulkResultDialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { User, UserResponse, UpdateUserData } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTrash } from '@/contexts/TrashContext';
+import { User, UpdateUserData, UserSortKey } from '@/types';
+import { useUsers, useCreateUser, useUpdateUser, useSoftDeleteUser, useBulkUserActions, usersQueryOptions, fetchAllMatchingUsers } from '@/hooks/use-users';
+import { useUsersListParams, ViewMode } from '@/hooks/use-users-list-params';
+import { UNDO_DELETE_WINDOW_MS } from '@/lib/pending-deletes';
+import { BatchResult } from '@/lib/batch';
+import { useDebounce } from '@/hooks/use-debounce';
+import { ApiSchemaError } from '@/lib/api';
 import { toast } from 'sonner';
-import { Search, ChevronLeft, ChevronRight, Users, LayoutGrid, LayoutList } from 'lucide-react';
+import { Search, ChevronLeft, ChevronRight, Users, LayoutGrid, Table2, UserPlus, Trash2, ArrowUpDown, Upload, Download } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const UsersPage: React.FC = () => {
-  const { token } = useAuth();
-  const [users, setUsers] = useState<User[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const queryClient = useQueryClient();
+  const { entries: trashEntries } = useTrash();
+  const { hasPermission } = useAuth();
+  const canCreate = hasPermission('users:create');
+  const canEdit = hasPermission('users:edit');
+  const canDelete = hasPermission('users:delete');
+  const canImport = hasPermission('users:import');
+  const canExport = hasPermission('users:export');
+  const {
+    page: currentPage,
+    search: searchQuery,
+    viewMode,
+    sort,
+    setPage: setCurrentPage,
+    setSearch,
+    setViewMode,
+    setSort,
+  } = useUsersListParams();
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope | null>(null);
+  const [selectedUsers, setSelectedUsers] = useState<Map<number, User>>(new Map());
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false);
+  const [isBulkUpdateDialogOpen, setIsBulkUpdateDialogOpen] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkSummary, setBulkSummary] = useState<BulkSummary | null>(null);
+
+  // Search runs across every page, not just the one on screen
+  const debouncedSearch = useDebounce(searchQuery.trim(), 300);
 
   // Fetch users with pagination
-  const fetchUsers = async (page: number) => {
-    setLoading(true);
-    try {
-      const response = await fetch(`https://reqres.in/api/users?page=${page}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch users');
-      }
-      const data: UserResponse = await response.json();
-      setUsers(data.data);
-      setFilteredUsers(data.data);
-      setTotalPages(data.total_pages);
-    } catch (error) {
+  const { data, isPending: loading, isFetching, isPlaceholderData, isError, error, refetch } = useUsers(currentPage, debouncedSearch, sort);
+  const users = useMemo(() => data?.data ?? [], [data]);
+  const totalPages = data?.total_pages ?? 1;
+  const createUserMutation = useCreateUser(currentPage);
+  const updateUserMutation = useUpdateUser();
+  const { softDelete } = useSoftDeleteUser();
+  const { updateUsers } = useBulkUserActions();
+
+  useEffect(() => {
+    if (isError) {
       console.error('Error fetching users:', error);
       toast.error('Failed to load users', {
         description: error instanceof Error ? error.message : 'An unknown error occurred'
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [isError, error]);
 
+  // Prefetch the next page so paging forward is instant
   useEffect(() => {
-    fetchUsers(currentPage);
-  }, [currentPage]);
+    if (currentPage < totalPages) {
+      queryClient.prefetchQuery(usersQueryOptions(queryClient, currentPage + 1, debouncedSearch, sort));
+    }
+  }, [currentPage, totalPages, debouncedSearch, sort, queryClient]);
 
-  // Filter users based on search query
-  useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredUsers(users);
-    } else {
-      const query = searchQuery.toLowerCase();
-      const filtered = users.filter(
-        (user) =>
-          user.first_name.toLowerCase().includes(query) ||
-          user.last_name.toLowerCase().includes(query) ||
-          user.email.toLowerCase().includes(query)
-      );
-      setFilteredUsers(filtered);
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+  };
+
+  const handleSortChange = (value: string) => {
+    if (value === 'none') {
+      setSort(null);
+      return;
     }
-  }, [searchQuery, users]);
+    const [key, direction] = value.split(':');
+    setSort({ key: key as UserSortKey, direction: direction as 'asc' | 'desc' });
+  };
+
+  // Create user
+  const createUser = async (userData: UpdateUserData) => {
+    try {
+      return await createUserMutation.mutateAsync(userData);
+    } catch (error) {
+      console.error('Error creating user:', error);
+      throw error;
+    }
+  };
 
   // Edit user
   const handleEditUser = (user: User) => {
@@ -76,34 +125,11 @@ const UsersPage: React.FC = () => {
     setIsEditModalOpen(true);
   };
 
+  // Applied optimistically; the list is rolled back if the request fails and
+  // the modal stays open until the server confirms
   const saveUserChanges = async (id: number, userData: UpdateUserData) => {
     try {
-      const response = await fetch(`https://reqres.in/api/users/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(userData),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update user');
-      }
-
-      // Update the user in the local state
-      setUsers((prevUsers) =>
-        prevUsers.map((user) =>
-          user.id === id
-            ? {
-                ...user,
-                first_name: userData.first_name || user.first_name,
-                last_name: userData.last_name || user.last_name,
-                email: userData.email || user.email,
-              }
-            : user
-        )
-      );
+      await updateUserMutation.mutateAsync({ id, userData });
     } catch (error) {
       console.error('Error updating user:', error);
       throw error;
@@ -116,43 +142,155 @@ const UsersPage: React.FC = () => {
     setIsDeleteDialogOpen(true);
   };
 
+  // Soft delete: the user is hidden now and the DELETE is sent once the undo window passes
   const confirmDeleteUser = async () => {
     if (!deletingUser) return;
 
-    try {
-      const response = await fetch(`https://reqres.in/api/users/${deletingUser.id}`, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${token}`,
+    const userName = `${deletingUser.first_name} ${deletingUser.last_name}`;
+    const { undo } = softDelete(deletingUser, {
+      onError: (error) => {
+        console.error('Error deleting user:', error);
+        toast.error('Delete reverted', {
+          description: `${userName} was restored: ${error instanceof Error ? error.message : 'An unknown error occurred'}`
+        });
+      },
+    });
+    toast.success(`${userName} deleted`, {
+      duration: UNDO_DELETE_WINDOW_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          // The toast pauses on hover while the undo window keeps running
+          if (undo()) {
+            toast.info(`${userName} restored`);
+          } else {
+            toast.error(`${userName} was already deleted`, { description: 'Restore it from the trash instead' });
+          }
         },
-      });
+      },
+    });
+  };
+
+  // Selection
+  const selectedIds = useMemo(() => new Set(selectedUsers.keys()), [selectedUsers]);
+  const selectedOnPage = users.filter((user) => selectedIds.has(user.id)).length;
 
-      if (!response.ok) {
-        throw new Error('Failed to delete user');
+  const handleSelectedChange = (user: User, selected: boolean) => {
+    setSelectedUsers((prev) => {
+      const next = new Map(prev);
+      if (selected) {
+        next.set(user.id, user);
+      } else {
+        next.delete(user.id);
       }
+      return next;
+    });
+  };
 
-      // Remove the user from the local state
-      setUsers((prevUsers) => prevUsers.filter((user) => user.id !== deletingUser.id));
-      toast.success(`${deletingUser.first_name} ${deletingUser.last_name} deleted successfully`);
+  const handleSelectPage = (selected: boolean) => {
+    setSelectedUsers((prev) => {
+      const next = new Map(prev);
+      users.forEach((user) => (selected ? next.set(user.id, user) : next.delete(user.id)));
+      return next;
+    });
+  };
+
+  const handleSelectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      const matching = await fetchAllMatchingUsers(queryClient, debouncedSearch);
+      setSelectedUsers(new Map(matching.map((user) => [user.id, user])));
     } catch (error) {
-      console.error('Error deleting user:', error);
-      toast.error('Failed to delete user', {
+      console.error('Error selecting users:', error);
+      toast.error('Failed to select all users', {
         description: error instanceof Error ? error.message : 'An unknown error occurred'
       });
-      throw error;
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  // Bulk actions run one request per user; the summary lists each outcome
+  const runBulkAction = async (
+    label: string,
+    action: string,
+    run: (users: User[], onProgress: (completed: number, total: number) => void) => Promise<BatchResult<User>[]>
+  ) => {
+    const users = Array.from(selectedUsers.values());
+    setBulkProgress({ label, completed: 0, total: users.length });
+    try {
+      const results = await run(users, (completed, total) => setBulkProgress({ label, completed, total }));
+      // Keep only the users that failed selected so they can be retried
+      setSelectedUsers(new Map(results.filter((result) => !result.ok).map(({ item }) => [item.id, item])));
+      setBulkSummary({ action, results });
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // Soft deletes every selected user behind a single undo; the summary only
+  // appears once the DELETEs have actually been sent
+  const confirmBulkDelete = async () => {
+    const deletions = Array.from(selectedUsers.values()).map((user) => softDelete(user));
+    const count = deletions.length;
+    setSelectedUsers(new Map());
+    toast.success(`${count} ${count === 1 ? 'user' : 'users'} deleted`, {
+      duration: UNDO_DELETE_WINDOW_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          const restored = deletions.filter(({ undo }) => undo()).length;
+          if (restored === count) {
+            toast.info(`${count} ${count === 1 ? 'user' : 'users'} restored`);
+          } else {
+            toast.error(`${count - restored} of ${count} users were already deleted`, {
+              description: 'Restore them from the trash instead',
+            });
+          }
+        },
+      },
+    });
+
+    const results = (await Promise.all(deletions.map(({ settled }) => settled))).filter(Boolean);
+    if (results.length === 0) return;
+    // Select the users that failed so they can be retried, keeping anything
+    // selected since
+    setSelectedUsers((prev) => {
+      const next = new Map(prev);
+      results.filter((result) => !result.ok).forEach(({ item }) => next.set(item.id, item));
+      return next;
+    });
+    setBulkSummary({ action: 'Bulk delete', results });
+  };
+
+  const confirmBulkUpdate = (userData: UpdateUserData) => {
+    runBulkAction('Updating', 'Bulk update', (users, onProgress) => updateUsers(users, userData, onProgress));
+  };
+
+  // Export
+  const getUsersToExport = async (scope: ExportScope) => {
+    switch (scope) {
+      case 'page':
+        return users;
+      case 'search':
+        return fetchAllMatchingUsers(queryClient, debouncedSearch);
+      case 'selection':
+        return Array.from(selectedUsers.values());
+      case 'all':
+        return fetchAllMatchingUsers(queryClient);
     }
   };
 
   // Pagination handlers
   const goToNextPage = () => {
     if (currentPage < totalPages) {
-      setCurrentPage((prev) => prev + 1);
+      setCurrentPage(currentPage + 1);
     }
   };
 
   const goToPrevPage = () => {
     if (currentPage > 1) {
-      setCurrentPage((prev) => prev - 1);
+      setCurrentPage(currentPage - 1);
     }
   };
 
@@ -190,21 +328,86 @@ const UsersPage: React.FC = () => {
               <Input
                 placeholder="Search users..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10"
               />
             </div>
             
             <div className="flex items-center gap-3">
-              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as 'grid' | 'list')} className="hidden md:block">
+              {canCreate && (
+                <Button
+                  size="sm"
+                  onClick={() => setIsCreateModalOpen(true)}
+                  className="flex items-center gap-1 btn-glow"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  <span className="hidden sm:inline">Add user</span>
+                </Button>
+              )}
+
+              {canImport && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsImportDialogOpen(true)}
+                  className="flex items-center gap-1"
+                >
+                  <Upload className="h-4 w-4" />
+                  <span className="hidden sm:inline">Import</span>
+                </Button>
+              )}
+
+              {canExport && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setExportScope(debouncedSearch ? 'search' : 'page')}
+                  className="flex items-center gap-1"
+                >
+                  <Download className="h-4 w-4" />
+                  <span className="hidden sm:inline">Export</span>
+                </Button>
+              )}
+
+              {canDelete && (
+                <Button asChild variant="outline" size="sm">
+                  <Link to="/users/trash" className="flex items-center gap-1">
+                    <Trash2 className="h-4 w-4" />
+                    <span className="hidden sm:inline">Trash</span>
+                    {trashEntries.length > 0 && (
+                      <Badge variant="secondary" className="ml-1 px-1.5">{trashEntries.length}</Badge>
+                    )}
+                  </Link>
+                </Button>
+              )}
+
+              <Select value={sort ? `${sort.key}:${sort.direction}` : 'none'} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-40 h-9">
+                  <ArrowUpDown className="h-4 w-4 mr-1 text-muted-foreground" />
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Default order</SelectItem>
+                  <SelectItem value="first_name:asc">First name (A–Z)</SelectItem>
+                  <SelectItem value="first_name:desc">First name (Z–A)</SelectItem>
+                  <SelectItem value="last_name:asc">Last name (A–Z)</SelectItem>
+                  <SelectItem value="last_name:desc">Last name (Z–A)</SelectItem>
+                  <SelectItem value="email:asc">Email (A–Z)</SelectItem>
+                  <SelectItem value="email:desc">Email (Z–A)</SelectItem>
+                  <SelectItem value="id:asc">ID (ascending)</SelectItem>
+                  <SelectItem value="id:desc">ID (descending)</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)} className="hidden md:block">
                 <TabsList>
                   <TabsTrigger value="grid" className="flex items-center gap-1">
                     <LayoutGrid className="h-4 w-4" />
                     <span>Grid</span>
                   </TabsTrigger>
-                  <TabsTrigger value="list" className="flex items-center gap-1">
-                    <LayoutList className="h-4 w-4" />
-                    <span>List</span>
+                  <TabsTrigger value="table" className="flex items-center gap-1">
+                    <Table2 className="h-4 w-4" />
+                    <span>Table</span>
                   </TabsTrigger>
                 </TabsList>
               </Tabs>
@@ -227,7 +430,7 @@ const UsersPage: React.FC = () => {
                   variant="outline"
                   size="sm"
                   onClick={goToNextPage}
-                  disabled={currentPage === totalPages || loading}
+                  disabled={currentPage === totalPages || loading || isPlaceholderData}
                   className="flex items-center gap-1"
                 >
                   <span className="hidden sm:inline">Next</span>
@@ -238,34 +441,102 @@ const UsersPage: React.FC = () => {
           </div>
         </div>
 
+        <BulkActionBar
+          selectedCount={selectedUsers.size}
+          progress={bulkProgress}
+          isSelectingAll={isSelectingAll}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClear={() => setSelectedUsers(new Map())}
+          onDelete={canDelete ? () => setIsBulkDeleteDialogOpen(true) : undefined}
+          onExport={canExport ? () => setExportScope('selection') : undefined}
+          onUpdate={canEdit ? () => setIsBulkUpdateDialogOpen(true) : undefined}
+        />
+
+        {debouncedSearch && !loading && (
+          <p className="text-sm text-muted-foreground mb-4 animate-fade-in">
+            {isFetching
+              ? 'Searching...'
+              : `${data?.total ?? 0} ${data?.total === 1 ? 'result' : 'results'} for "${debouncedSearch}"`}
+          </p>
+        )}
+
         {/* User grid/list */}
         {loading ? (
           <UserLoadingSkeleton />
-        ) : filteredUsers.length === 0 ? (
+        ) : error instanceof ApiSchemaError ? (
+          <SchemaErrorState error={error} onRetry={() => refetch()} />
+        ) : users.length === 0 ? (
           <div className="text-center py-16 bg-card/30 backdrop-blur-sm rounded-lg border border-border/40 animate-fade-in">
             <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-lg font-medium mb-1">No users found</p>
             <p className="text-muted-foreground mb-4">Try adjusting your search criteria</p>
-            <Button onClick={() => setSearchQuery('')} variant="outline">Clear search</Button>
+            <Button onClick={() => handleSearchChange('')} variant="outline">Clear search</Button>
           </div>
+        ) : viewMode === 'table' ? (
+          <UsersTable
+            users={users}
+            sort={sort}
+            onSortChange={setSort}
+            onEdit={canEdit ? handleEditUser : undefined}
+            onDelete={canDelete ? handleDeleteUser : undefined}
+            highlight={debouncedSearch}
+            selectedIds={selectedIds}
+            onSelectedChange={handleSelectedChange}
+            onSelectPage={handleSelectPage}
+          />
         ) : (
-          <div className={viewMode === 'grid' 
-            ? "grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6"
-            : "grid grid-cols-1 gap-4"
-          }>
-            {filteredUsers.map((user, index) => (
-              <div key={user.id} className={`animate-in stagger-${(index % 3) + 1}`}>
-                <UserCard
-                  user={user}
-                  onEdit={handleEditUser}
-                  onDelete={handleDeleteUser}
-                />
-              </div>
-            ))}
-          </div>
+          <>
+            <div className="flex items-center gap-2 mb-4">
+              <Checkbox
+                id="select-page"
+                checked={selectedOnPage === 0 ? false : selectedOnPage === users.length ? true : 'indeterminate'}
+                onCheckedChange={(checked) => handleSelectPage(checked === true)}
+              />
+              <Label htmlFor="select-page" className="text-sm text-muted-foreground cursor-pointer">
+                Select all on page
+              </Label>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+              {users.map((user, index) => (
+                <div key={user.id} className={`animate-in stagger-${(index % 3) + 1}`}>
+                  <UserCard
+                    user={user}
+                    onEdit={canEdit ? handleEditUser : undefined}
+                    onDelete={canDelete ? handleDeleteUser : undefined}
+                    highlight={debouncedSearch}
+                    selected={selectedIds.has(user.id)}
+                    onSelectedChange={handleSelectedChange}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
         )}
       </div>
 
+      {/* Create Modal */}
+      <UserCreateModal
+        isOpen={isCreateModalOpen}
+        onClose={() => setIsCreateModalOpen(false)}
+        onCreate={createUser}
+      />
+
+      {/* CSV Import */}
+      <UserImportDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+      />
+
+      {/* Export */}
+      <UserExportDialog
+        isOpen={!!exportScope}
+        onClose={() => setExportScope(null)}
+        initialScope={exportScope ?? 'page'}
+        searchQuery={debouncedSearch}
+        selectedCount={selectedUsers.size}
+        getUsers={getUsersToExport}
+      />
+
       {/* Edit Modal */}
       <UserEditModal
         user={editingUser}
@@ -281,6 +552,21 @@ const UsersPage: React.FC = () => {
         onConfirm={confirmDeleteUser}
         userName={deletingUser ? `${deletingUser.first_name} ${deletingUser.last_name}` : ''}
       />
+
+      {/* Bulk action dialogs */}
+      <UserDeleteDialog
+        isOpen={isBulkDeleteDialogOpen}
+        onClose={() => setIsBulkDeleteDialogOpen(false)}
+        onConfirm={confirmBulkDelete}
+        userName={`${selectedUsers.size} selected users`}
+      />
+      <BulkUpdateDialog
+        isOpen={isBulkUpdateDialogOpen}
+        selectedCount={selectedUsers.size}
+        onClose={() => setIsBulkUpdateDialogOpen(false)}
+        onConfirm={confirmBulkUpdate}
+      />
+      <BulkResultDialog summary={bulkSummary} onClose={() => setBulkSummary(null)} />
     </div>
   );
 };
@@ -5,6 +5,12 @@ export interface User {
   first_name: string;
   last_name: string;
   avatar: string;
+  job?: string;
+  department?: string;
+  phone?: string;
+  location?: string;
+  // ISO date, e.g. 2024-03-18
+  start_date?: string;
 }
 
 export interface UserResponse {
@@ -19,10 +25,63 @@ export interface SingleUserResponse {
   data: User;
 }
 
+export type UserSortKey = 'id' | 'first_name' | 'last_name' | 'email';
+
+export interface UserSort {
+  key: UserSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface TrashEntry {
+  user: User;
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export type ActivityType = 'created' | 'updated' | 'deleted' | 'restored';
+
+export interface ActivityEntry {
+  userId: number;
+  type: ActivityType;
+  at: string;
+  by: string;
+  // Fields an update changed
+  fields?: (keyof User)[];
+}
+
 export interface UpdateUserData {
   name?: string;
   first_name?: string;
   last_name?: string;
   email?: string;
+  avatar?: string;
   job?: string;
+  department?: string;
+  phone?: string;
+  location?: string;
+  start_date?: string;
+}
+
+export interface CreateUserResponse extends UpdateUserData {
+  id: string;
+  createdAt: string;
+}
+
+export type Role = 'admin' | 'manager' | 'viewer';
+
+export type Permission = 'users:create' | 'users:edit' | 'users:delete' | 'users:import' | 'users:export';
+
+export interface LoginResponse {
+  token: string;
+  role?: Role;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  // Seconds until the new token expires
+  expires_in?: number;
+}
+
+export interface RegisterResponse extends LoginResponse {
+  id: number;
 }
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_SEARCH_PARAM?: string;
+  readonly VITE_UNDO_DELETE_WINDOW_MS?: string;
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+  readonly VITE_API_REFRESH_PATH?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_DEFAULT_ROLE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}